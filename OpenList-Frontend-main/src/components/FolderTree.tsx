@@ -31,7 +31,7 @@ import {
   JSXElement,
   onMount,
 } from "solid-js"
-import { useFetch, useT, useUtil } from "~/hooks"
+import { useDragMove, useFetch, useT, useUtil } from "~/hooks"
 import { getMainColor, password } from "~/store"
 import { Obj } from "~/types"
 import {
@@ -58,6 +58,8 @@ export interface FolderTreeProps {
   handle?: (handler: FolderTreeHandler) => void
   showEmptyIcon?: boolean
   showHiddenFolder?: boolean
+  // the selected objs can be dragged onto the folders
+  droppable?: boolean
 }
 interface FolderTreeContext extends Omit<FolderTreeProps, "handle"> {
   value: Accessor<string>
@@ -93,6 +95,7 @@ export const FolderTree = (props: FolderTreeProps) => {
           forceRoot: props.forceRoot ?? false,
           showEmptyIcon: props.showEmptyIcon ?? false,
           showHiddenFolder: props.showHiddenFolder ?? true,
+          droppable: props.droppable ?? false,
           creatingFolderPath,
           setCreatingFolderPath,
         }}
@@ -113,9 +116,12 @@ const FolderTreeNode = (props: { path: string }) => {
     autoOpen,
     showEmptyIcon,
     showHiddenFolder,
+    droppable,
     creatingFolderPath,
     setCreatingFolderPath,
   } = useContext(context)!
+  const { dropTarget } = useDragMove()
+  const drop = dropTarget(() => props.path)
   const emptyIconVisible = () =>
     Boolean(showEmptyIcon && children() !== undefined && !children()?.length)
   const [loading, fetchDirs] = useFetch(() =>
@@ -194,10 +200,13 @@ const FolderTreeNode = (props: { path: string }) => {
             cursor="pointer"
             px="$1"
             rounded="$md"
-            bgColor={active() ? "$info8" : "transparent"}
+            bgColor={
+              active() ? "$info8" : drop.over() ? "$info5" : "transparent"
+            }
             _hover={{
               bgColor: active() ? "$info8" : hoverColor(),
             }}
+            {...(droppable ? drop.handlers : {})}
             onClick={() => {
               onChange(props.path)
             }}
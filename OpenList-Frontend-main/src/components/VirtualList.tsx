@@ -0,0 +1,239 @@
+import { Box } from "@hope-ui/solid"
+import {
+  Accessor,
+  createEffect,
+  createMemo,
+  createSignal,
+  For,
+  JSX,
+  mergeProps,
+  on,
+  onCleanup,
+  onMount,
+} from "solid-js"
+
+export interface VirtualListProps<T> {
+  each: readonly T[]
+  // every row has this height in pixels
+  itemHeight: number
+  // height of the scrolling viewport, any CSS length
+  maxHeight: string
+  // rows rendered above and below the visible ones
+  overscan?: number
+  children: (item: T, index: () => number) => JSX.Element
+}
+
+// Scrolling list that only renders the rows in view, for lists too long to
+// render at once
+export const VirtualList = <T,>(props: VirtualListProps<T>) => {
+  const merged = mergeProps({ overscan: 5 }, props)
+  let viewport: HTMLDivElement | undefined
+  const [scrollTop, setScrollTop] = createSignal(0)
+  const [height, setHeight] = createSignal(0)
+
+  onMount(() => {
+    const observer = new ResizeObserver(() => setHeight(viewport!.clientHeight))
+    observer.observe(viewport!)
+    onCleanup(() => observer.disconnect())
+  })
+
+  const range = createMemo(() => {
+    const first = Math.max(
+      0,
+      Math.floor(scrollTop() / merged.itemHeight) - merged.overscan,
+    )
+    const last = Math.min(
+      merged.each.length,
+      Math.ceil((scrollTop() + height()) / merged.itemHeight) + merged.overscan,
+    )
+    return { first, last }
+  })
+  const visible = createMemo(() =>
+    merged.each.slice(range().first, range().last),
+  )
+
+  return (
+    <Box
+      ref={viewport}
+      w="$full"
+      maxH={merged.maxHeight}
+      overflowY="auto"
+      onScroll={(e: Event) =>
+        setScrollTop((e.currentTarget as HTMLDivElement).scrollTop)
+      }
+    >
+      <Box
+        pos="relative"
+        w="$full"
+        h={`${merged.each.length * merged.itemHeight}px`}
+      >
+        <For each={visible()}>
+          {(item, i) => (
+            <Box
+              pos="absolute"
+              left={0}
+              right={0}
+              top={`${(range().first + i()) * merged.itemHeight}px`}
+              h={`${merged.itemHeight}px`}
+            >
+              {merged.children(item, () => range().first + i())}
+            </Box>
+          )}
+        </For>
+      </Box>
+    </Box>
+  )
+}
+
+export interface WindowVirtualListProps<T> {
+  each: readonly T[]
+  // render only the rows in view, else every row
+  enabled: boolean
+  // estimated height of a row and the gap below it in pixels, corrected
+  // from the rendered rows
+  rowHeight: number
+  // items laid out side by side get at least this width in pixels, the
+  // columns of a `repeat(auto-fill, minmax(...))` grid
+  minItemWidth?: number
+  // gap between the items in pixels
+  gap?: number
+  // rows rendered above and below the visible ones
+  overscan?: number
+  // renders the items of the rows in view
+  children: (items: Accessor<T[]>) => JSX.Element
+  // the rendered rows changed, called once they are in the document
+  onRangeChange?: () => void
+  ref?: (list: WindowVirtualListRef) => void
+}
+
+export interface WindowVirtualListRef {
+  columns: () => number
+  // rows that fit in the window
+  rowsInView: () => number
+  // scrolls the window to the item at the position in each, unless it is
+  // in view already
+  scrollToItem: (position: number) => void
+}
+
+// Row heights measured by their estimate, a list shown again starts with the
+// right height and so the page with the scroll position it had
+const measuredHeights = new Map<number, number>()
+
+// List in the page that only renders the rows in view while the window
+// scrolls, the rows out of view are replaced by padding so the page keeps
+// its height and scroll position
+export const WindowVirtualList = <T,>(props: WindowVirtualListProps<T>) => {
+  const merged = mergeProps({ overscan: 4, gap: 0 }, props)
+  let container: HTMLDivElement | undefined
+  let content: HTMLDivElement | undefined
+  const [view, setView] = createSignal({ top: 0, height: window.innerHeight })
+  const [width, setWidth] = createSignal(0)
+  const [measured, setMeasured] = createSignal<number>()
+  createEffect(
+    on(
+      () => merged.rowHeight,
+      () => setMeasured(undefined),
+      { defer: true },
+    ),
+  )
+  const rowHeight = () =>
+    measured() ?? measuredHeights.get(merged.rowHeight) ?? merged.rowHeight
+
+  const columns = createMemo(() => {
+    if (!merged.minItemWidth || !width()) return 1
+    return Math.max(
+      1,
+      Math.floor((width() + merged.gap) / (merged.minItemWidth + merged.gap)),
+    )
+  })
+  const rows = () => Math.ceil(merged.each.length / columns())
+
+  const updateView = () => {
+    if (!container) return
+    setView({
+      top: -container.getBoundingClientRect().top,
+      height: window.innerHeight,
+    })
+  }
+  onMount(() => {
+    updateView()
+    window.addEventListener("scroll", updateView, { passive: true })
+    window.addEventListener("resize", updateView)
+    const resize = new ResizeObserver(() => {
+      setWidth(container!.clientWidth)
+      updateView()
+    })
+    resize.observe(container!)
+    // every row has the same height, so the rendered ones tell the height
+    // of all
+    const measure = new ResizeObserver(() => {
+      const { first, last } = range()
+      if (last <= first || !content) return
+      const height = content.offsetHeight
+      if (height <= 0) return
+      const rowHeight = (height + merged.gap) / (last - first)
+      measuredHeights.set(merged.rowHeight, rowHeight)
+      setMeasured(rowHeight)
+    })
+    measure.observe(content!)
+    onCleanup(() => {
+      window.removeEventListener("scroll", updateView)
+      window.removeEventListener("resize", updateView)
+      resize.disconnect()
+      measure.disconnect()
+    })
+  })
+
+  const range = createMemo(
+    () => {
+      if (!merged.enabled) return { first: 0, last: rows() }
+      const first = Math.max(
+        0,
+        Math.floor(view().top / rowHeight()) - merged.overscan,
+      )
+      const last = Math.min(
+        rows(),
+        Math.ceil((view().top + view().height) / rowHeight()) + merged.overscan,
+      )
+      return { first: Math.min(first, last), last }
+    },
+    undefined,
+    { equals: (a, b) => a.first === b.first && a.last === b.last },
+  )
+  const visible = createMemo(() =>
+    merged.each.slice(range().first * columns(), range().last * columns()),
+  )
+  createEffect(on(visible, () => merged.onRangeChange?.(), { defer: true }))
+  merged.ref?.({
+    columns,
+    rowsInView: () => Math.max(1, Math.floor(view().height / rowHeight())),
+    scrollToItem: (position) => {
+      if (!container) return
+      const top =
+        container.getBoundingClientRect().top +
+        window.scrollY +
+        Math.floor(position / columns()) * rowHeight()
+      const bottom = top + rowHeight()
+      if (top >= window.scrollY && bottom <= window.scrollY + view().height) {
+        return
+      }
+      window.scrollTo({ top: top - (view().height - rowHeight()) / 2 })
+    },
+  })
+  const rendered = merged.children(visible)
+
+  return (
+    <Box
+      ref={container}
+      w="$full"
+      style={{
+        "padding-top": `${range().first * rowHeight()}px`,
+        "padding-bottom": `${(rows() - range().last) * rowHeight()}px`,
+      }}
+    >
+      <Box ref={content} w="$full">
+        {rendered}
+      </Box>
+    </Box>
+  )
+}
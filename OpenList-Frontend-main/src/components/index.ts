@@ -16,3 +16,4 @@ export * from "./Paginator"
 export * from "./icons"
 export * from "./EncodingSelect"
 export * from "./SelectOptions"
+export * from "./VirtualList"
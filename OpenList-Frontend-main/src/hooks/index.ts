@@ -7,3 +7,5 @@ export * from "./useLink"
 export * from "./useUtil"
 export * from "./useDownload"
 export * from "./useCDN"
+export * from "./useDragMove"
+export * from "./useEncrypted"
@@ -1,8 +1,8 @@
 import axios from "axios"
 import { local, password, selectedObjs as _selectedObjs } from "~/store"
 import { fsList, notify, pathBase, pathJoin } from "~/utils"
-import { getLinkByDirAndObj, useRouter, useT } from "~/hooks"
-import { useSelectedLink } from "~/hooks"
+import { getLinkByDirAndObj, useLink, useRouter, useT } from "~/hooks"
+import { useEncrypted, useSelectedLink } from "~/hooks"
 import { Obj } from "~/types"
 
 interface File {
@@ -39,16 +39,33 @@ async function getSaveDir(rpc_url: string, rpc_secret: string) {
 }
 export const useDownload = () => {
   const { rawLinks } = useSelectedLink()
+  const { rawLink } = useLink()
+  const { selectedEncrypted, refuseEncryptedLinks, downloadDecrypted } =
+    useEncrypted()
   const t = useT()
   const { pathname, isShare } = useRouter()
   return {
-    batchDownloadSelected: () => {
-      const urls = rawLinks(true)
-      urls.forEach((url) => {
-        window.open(url, "_blank")
+    batchDownloadSelected: async () => {
+      const files = _selectedObjs().filter((obj) => !obj.is_dir)
+      // the windows are opened on the click, a popup blocker stops those
+      // opened after the headers are fetched. Encrypted files close theirs.
+      const windows = files.map(() => window.open("", "_blank"))
+      const encrypted = await selectedEncrypted()
+      files.forEach((obj, i) => {
+        if (encrypted.has(obj.name)) windows[i]?.close()
+        else if (windows[i]) windows[i]!.location.href = rawLink(obj, true)
       })
+      // one after another, they are streamed rather than held in memory
+      for (const obj of files.filter((obj) => encrypted.has(obj.name))) {
+        try {
+          await downloadDecrypted(obj, encrypted.get(obj.name)!)
+        } catch (e: any) {
+          notify.error(`${obj.name}: ${e.message}`)
+        }
+      }
     },
     sendToAria2: async () => {
+      if (await refuseEncryptedLinks()) return
       const selectedObjs = _selectedObjs()
       const fetchFolderStructure = async (
         pre: string,
@@ -160,7 +177,8 @@ export const useDownload = () => {
         notify.error(`failed to send to aria2: ${e}`)
       }
     },
-    playlistDownloadSelected: () => {
+    playlistDownloadSelected: async () => {
+      if (await refuseEncryptedLinks()) return
       const selectedObjs = _selectedObjs().filter((obj) => !obj.is_dir)
       let saveName = pathBase(pathname())
       if (selectedObjs.length === 1) {
@@ -0,0 +1,85 @@
+import { createSignal } from "solid-js"
+import { selectedObjs, userCan } from "~/store"
+import { pathJoin } from "~/utils"
+import { useRouter } from "./useRouter"
+
+export interface DraggedObjs {
+  srcDir: string
+  names: string[]
+}
+
+// A drop waiting for the conflict options to be chosen
+export interface PendingDrop extends DraggedObjs {
+  dstDir: string
+  copy: boolean
+}
+
+const [dragged, setDragged] = createSignal<DraggedObjs>()
+const [pendingDrop, setPendingDrop] = createSignal<PendingDrop>()
+export { pendingDrop, setPendingDrop }
+
+// Ctrl or Alt held on the drop copies instead of moving
+const isCopy = (e: DragEvent) => e.ctrlKey || e.altKey
+
+// Dragging the selected objs onto a folder to move or copy them there
+export const useDragMove = () => {
+  const { pathname, isShare } = useRouter()
+  const canDrag = () => !isShare() && (userCan("move") || userCan("copy"))
+
+  const dragStart = (e: DragEvent) => {
+    const names = selectedObjs().map((obj) => obj.name)
+    if (names.length === 0 || !e.dataTransfer) return
+    e.dataTransfer.effectAllowed = "copyMove"
+    e.dataTransfer.setData("text/plain", names.join("\n"))
+    setDragged({ srcDir: pathname(), names })
+  }
+  const dragEnd = () => setDragged(undefined)
+
+  const dropTarget = (path: () => string) => {
+    const [over, setOver] = createSignal(false)
+    // enter and leave also come from the children of the target
+    let entered = 0
+    const accepts = (e: DragEvent) => {
+      const objs = dragged()
+      if (!objs || !userCan(isCopy(e) ? "copy" : "move")) return false
+      const dst = path()
+      // neither where they are nor into themselves
+      return (
+        dst !== objs.srcDir &&
+        !objs.names.some((name) => {
+          const src = pathJoin(objs.srcDir, name)
+          return dst === src || dst.startsWith(src + "/")
+        })
+      )
+    }
+    const handlers = {
+      onDragEnter: (e: DragEvent) => {
+        if (!accepts(e)) return
+        e.preventDefault()
+        entered++
+        setOver(true)
+      },
+      onDragOver: (e: DragEvent) => {
+        if (!accepts(e)) return
+        e.preventDefault()
+        if (e.dataTransfer)
+          e.dataTransfer.dropEffect = isCopy(e) ? "copy" : "move"
+      },
+      onDragLeave: () => {
+        if (entered > 0 && --entered === 0) setOver(false)
+      },
+      onDrop: (e: DragEvent) => {
+        entered = 0
+        setOver(false)
+        if (!accepts(e)) return
+        e.preventDefault()
+        e.stopPropagation()
+        setPendingDrop({ ...dragged()!, dstDir: path(), copy: isCopy(e) })
+        setDragged(undefined)
+      },
+    }
+    return { over, handlers }
+  }
+
+  return { canDrag, dragStart, dragEnd, dropTarget }
+}
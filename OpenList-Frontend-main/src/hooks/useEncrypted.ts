@@ -0,0 +1,94 @@
+import { objStore, passphraseOf, selectedObjs, State } from "~/store"
+import { Obj } from "~/types"
+import {
+  decryptStream,
+  E2EEHeader,
+  E2EE_HEADER_SIZE,
+  e2eeKeyOf,
+  fetchE2EEHeader,
+  notify,
+  pathDir,
+} from "~/utils"
+import { asyncPool } from "~/utils/async_pool"
+import { useLink } from "./useLink"
+import { useRouter } from "./useRouter"
+import { useT } from "./useT"
+
+// Headers fetched at once when looking through the selection
+const PROBES = 4
+
+// Saves the plaintext of the encrypted file at the url as it is decrypted,
+// into the file picked where the browser lets one be picked, else through
+// the download service worker. It is never held in memory as a whole.
+export const saveDecrypted = async (
+  url: string,
+  name: string,
+  header: E2EEHeader,
+  passphrase: string,
+  onProgress?: (decrypted: number) => void,
+) => {
+  let sink: WritableStream<Uint8Array> | undefined
+  try {
+    const handle = await window.showSaveFilePicker?.({ suggestedName: name })
+    sink = await handle?.createWritable()
+  } catch (e: any) {
+    if (e?.name === "AbortError") return
+  }
+  const key = await e2eeKeyOf(passphrase, header)
+  const resp = await fetch(url)
+  if (!resp.ok || !resp.body) {
+    throw new Error(`${resp.status} ${resp.statusText}`)
+  }
+  if (!sink) {
+    const { default: streamSaver } = await import("streamsaver")
+    streamSaver.mitm = "/streamer/mitm.html"
+    sink = streamSaver.createWriteStream(name, { size: header.size })
+  }
+  await resp.body
+    .pipeThrough(decryptStream(header, key, onProgress))
+    .pipeTo(sink)
+}
+
+// Files encrypted in the browser among the selected objs. Their links serve
+// the ciphertext, so they are downloaded decrypted and never handed out by
+// link. Like the preview, only files of unlocked folders are looked at.
+export const useEncrypted = () => {
+  const t = useT()
+  const { pathname } = useRouter()
+  const { proxyLink } = useLink()
+  const passphrase = () =>
+    passphraseOf(
+      objStore.state !== State.File ? pathname() : pathDir(pathname()),
+    )
+
+  // the headers of the encrypted selected files by name
+  const selectedEncrypted = async () => {
+    const headers = new Map<string, E2EEHeader>()
+    if (!passphrase()) return headers
+    const files = selectedObjs().filter(
+      (obj) => !obj.is_dir && obj.size >= E2EE_HEADER_SIZE,
+    )
+    const probe = async (obj: Obj) => {
+      const header = await fetchE2EEHeader(proxyLink(obj, true)).catch(
+        () => undefined,
+      )
+      if (header) headers.set(obj.name, header)
+    }
+    for await (const _ of asyncPool(PROBES, files, probe)) {
+      // the headers are collected by probe
+    }
+    return headers
+  }
+
+  return {
+    selectedEncrypted,
+    // warns and returns true when the selection holds an encrypted file
+    refuseEncryptedLinks: async () => {
+      if ((await selectedEncrypted()).size === 0) return false
+      notify.warning(t("home.toolbar.e2ee_no_links"))
+      return true
+    },
+    downloadDecrypted: (obj: Obj, header: E2EEHeader) =>
+      saveDecrypted(proxyLink(obj, true), obj.name, header, passphrase()!),
+  }
+}
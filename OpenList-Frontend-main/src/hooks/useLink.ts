@@ -8,7 +8,7 @@ import {
   pathJoin,
   standardizePath,
 } from "~/utils"
-import { useRouter, useUtil } from "."
+import { useEncrypted, useRouter, useUtil } from "."
 import { cookieStorage } from "@solid-primitives/storage"
 
 type URLType = "preview" | "direct" | "proxy"
@@ -108,11 +108,13 @@ export const useCopyLink = () => {
   const { copy } = useUtil()
   const { previewPagesText, rawLinksText } = useSelectedLink()
   const { currentObjLink } = useLink()
+  const { refuseEncryptedLinks } = useEncrypted()
   return {
     copySelectedPreviewPage: () => {
       copy(previewPagesText())
     },
-    copySelectedRawLink: (encodeAll?: boolean) => {
+    copySelectedRawLink: async (encodeAll?: boolean) => {
+      if (await refuseEncryptedLinks()) return
       copy(rawLinksText(encodeAll))
     },
     copyCurrentRawLink: (encodeAll?: boolean) => {
@@ -37,6 +37,10 @@ export const useUtil = () => {
 export function useFetchText(raw?: boolean) {
   const { proxyLink } = useLink()
   const fetchContent = async () => {
+    // decrypted in the browser, see file/Encrypted.tsx
+    if (objStore.raw_url.startsWith("blob:")) {
+      return fetchText(objStore.raw_url, false)
+    }
     let fileurl = proxyLink(objStore.obj, true)
     if (raw) {
       const separator = fileurl.includes("?") ? "&" : "?"
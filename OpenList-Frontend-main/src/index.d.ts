@@ -1 +1,34 @@
 declare module "aplayer"
+
+// File System Access API members not yet in the TypeScript DOM lib
+type FileSystemPermissionMode = "read" | "readwrite"
+interface FileSystemHandlePermissionDescriptor {
+  mode?: FileSystemPermissionMode
+}
+interface FileSystemHandle {
+  queryPermission?(
+    descriptor?: FileSystemHandlePermissionDescriptor,
+  ): Promise<PermissionState>
+  requestPermission?(
+    descriptor?: FileSystemHandlePermissionDescriptor,
+  ): Promise<PermissionState>
+}
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<
+    FileSystemFileHandle | FileSystemDirectoryHandle
+  >
+}
+interface DataTransferItem {
+  getAsFileSystemHandle?(): Promise<FileSystemHandle | null>
+}
+interface Window {
+  showOpenFilePicker?(options?: {
+    multiple?: boolean
+  }): Promise<FileSystemFileHandle[]>
+  showDirectoryPicker?(options?: {
+    mode?: FileSystemPermissionMode
+  }): Promise<FileSystemDirectoryHandle>
+  showSaveFilePicker?(options?: {
+    suggestedName?: string
+  }): Promise<FileSystemFileHandle>
+}
@@ -7,7 +7,7 @@ import {
 } from "@hope-ui/solid"
 import { Link } from "@solidjs/router"
 import { createMemo, For, Show } from "solid-js"
-import { usePath, useRouter, useT } from "~/hooks"
+import { useDragMove, usePath, useRouter, useT } from "~/hooks"
 import { getSetting, local } from "~/store"
 import { encodePath, hoverColor, joinBase } from "~/utils"
 
@@ -23,6 +23,7 @@ export const Nav = () => {
   })
   const t = useT()
   const { setPathAs } = usePath()
+  const { dropTarget } = useDragMove()
 
   const stickyProps = createMemo<BreadcrumbProps>(() => {
     const mask: BreadcrumbProps = {
@@ -63,6 +64,8 @@ export const Nav = () => {
             .slice(0, i() + 1)
             .join("/")
           const href = encodePath(path)
+          // the selected objs can be dragged onto the folders above
+          const drop = dropTarget(() => path || "/")
           let text = () => name
           if (!isShare() && text() === "") {
             text = () => getSetting("home_icon") + t("manage.sidemenu.home")
@@ -86,6 +89,8 @@ export const Nav = () => {
                 as={isLast() ? undefined : Link}
                 href={joinBase(href)}
                 onMouseEnter={() => setPathAs(path)}
+                bgColor={drop.over() ? "$info5" : undefined}
+                {...(isLast() || isShare() ? {} : drop.handlers)}
               >
                 {text()}
               </BreadcrumbLink>
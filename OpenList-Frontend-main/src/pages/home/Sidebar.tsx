@@ -92,6 +92,7 @@ function SidebarPannel() {
         autoOpen
         showEmptyIcon
         showHiddenFolder={false}
+        droppable
         onChange={(path) => to(path)}
         handle={(handler) => setFolderTreeHandler(handler)}
       />
@@ -0,0 +1,235 @@
+import {
+  Button,
+  HStack,
+  Input,
+  Progress,
+  ProgressIndicator,
+  Text,
+  VStack,
+} from "@hope-ui/solid"
+import {
+  createEffect,
+  createResource,
+  createSignal,
+  JSXElement,
+  Match,
+  on,
+  onCleanup,
+  Show,
+  Switch,
+} from "solid-js"
+import { FullLoading } from "~/components"
+import { saveDecrypted, useLink, useRouter, useT } from "~/hooks"
+import {
+  getMainColor,
+  ObjStore,
+  objStore,
+  passphraseOf,
+  unlockFolder,
+} from "~/store"
+import {
+  decryptStream,
+  E2EE_HEADER_SIZE,
+  e2eeKeyOf,
+  fetchE2EEHeader,
+  InvalidE2EEHeaderError,
+  pathDir,
+  WrongPassphraseError,
+} from "~/utils"
+
+// A file encrypted in the browser is recognised by its header and decrypted
+// before any preview sees it, the previews and the download then read the
+// plaintext from a blob URL in place of the raw url. Outside an unlocked
+// folder the passphrase is asked for instead of showing the ciphertext.
+// Larger files aren't decrypted into memory for a preview, only saved
+const PREVIEW_LIMIT = 256 * 1024 * 1024
+
+export const Encrypted = (props: { children: JSXElement }) => {
+  const t = useT()
+  const { pathname } = useRouter()
+  const { proxyLink } = useLink()
+  const folder = () => pathDir(pathname())
+  const url = proxyLink(objStore.obj, true)
+  const [header] = createResource(
+    () => objStore.obj.size >= E2EE_HEADER_SIZE,
+    () =>
+      fetchE2EEHeader(url).catch((e) => {
+        // a file that can't be fetched is left to the preview
+        if (e instanceof InvalidE2EEHeaderError) throw e
+      }),
+  )
+  const [progress, setProgress] = createSignal(0)
+  const [error, setError] = createSignal("")
+  const [decrypted, setDecrypted] = createSignal(false)
+  const [tooLarge, setTooLarge] = createSignal(false)
+  // an unlocked folder's passphrase that doesn't open this file
+  const [rejected, setRejected] = createSignal<string>()
+  const rawUrl = objStore.raw_url
+  let blobUrl: string | undefined
+  onCleanup(() => {
+    if (!blobUrl) return
+    if (objStore.raw_url === blobUrl) ObjStore.setRawUrl(rawUrl)
+    URL.revokeObjectURL(blobUrl)
+  })
+
+  const decrypt = async (passphrase: string) => {
+    setError("")
+    setProgress(0)
+    try {
+      const key = await e2eeKeyOf(passphrase, header()!)
+      if (header()!.size > PREVIEW_LIMIT) {
+        setTooLarge(true)
+        return
+      }
+      const resp = await fetch(url)
+      if (!resp.ok || !resp.body) {
+        throw new Error(`${resp.status} ${resp.statusText}`)
+      }
+      // decrypted as it arrives, the browser keeps the plaintext blob
+      const plain = await new Response(
+        resp.body.pipeThrough(
+          decryptStream(header()!, key, (done) =>
+            setProgress((done / header()!.size) * 100),
+          ),
+        ),
+      ).blob()
+      blobUrl = URL.createObjectURL(plain)
+      ObjStore.setRawUrl(blobUrl)
+      setDecrypted(true)
+    } catch (e: any) {
+      if (e instanceof WrongPassphraseError) {
+        setRejected(passphrase)
+        setError(t("home.toolbar.e2ee_wrong_passphrase"))
+      } else {
+        setError(e.message)
+      }
+    }
+  }
+  const unlocked = () => {
+    const passphrase = passphraseOf(folder())
+    return passphrase !== rejected() ? passphrase : undefined
+  }
+  // as soon as the folder is unlocked, here or from the toolbar
+  createEffect(
+    on(
+      () => [header.error ? undefined : header(), unlocked()] as const,
+      ([header, passphrase]) => {
+        if (header && passphrase && !decrypted()) decrypt(passphrase)
+      },
+    ),
+  )
+
+  const [saving, setSaving] = createSignal(false)
+  const save = async () => {
+    setSaving(true)
+    setError("")
+    setProgress(0)
+    try {
+      await saveDecrypted(
+        url,
+        objStore.obj.name,
+        header()!,
+        unlocked()!,
+        (done) => setProgress((done / header()!.size) * 100),
+      )
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const [passphrase, setPassphrase] = createSignal("")
+  const [checking, setChecking] = createSignal(false)
+  const unlock = async () => {
+    setChecking(true)
+    setError("")
+    try {
+      await e2eeKeyOf(passphrase(), header()!)
+      unlockFolder(folder(), passphrase(), header()!.salt)
+    } catch (e: any) {
+      setError(
+        e instanceof WrongPassphraseError
+          ? t("home.toolbar.e2ee_wrong_passphrase")
+          : e.message,
+      )
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <Switch fallback={props.children}>
+      <Match when={header.loading}>
+        <FullLoading />
+      </Match>
+      <Match when={header.error}>
+        <Text color="$danger10" py="$8" textAlign="center">
+          {header.error.message}
+        </Text>
+      </Match>
+      <Match when={tooLarge() && unlocked()}>
+        <VStack w="$full" spacing="$2" py="$8">
+          <Text>{t("home.preview.e2ee_too_large")}</Text>
+          <Button colorScheme="accent" loading={saving()} onClick={save}>
+            {t("home.preview.download")}
+          </Button>
+          <Show when={saving()}>
+            <Progress
+              w="$full"
+              maxW="$md"
+              trackColor="$info3"
+              rounded="$full"
+              value={progress()}
+              size="sm"
+            >
+              <ProgressIndicator color={getMainColor()} rounded="$md" />
+            </Progress>
+          </Show>
+          <Text color="$danger10">{error()}</Text>
+        </VStack>
+      </Match>
+      <Match when={header() && !decrypted() && unlocked()}>
+        <VStack w="$full" spacing="$2" py="$8">
+          <Text>{t("home.preview.decrypting")}</Text>
+          <Progress
+            w="$full"
+            maxW="$md"
+            trackColor="$info3"
+            rounded="$full"
+            value={progress()}
+            size="sm"
+          >
+            <ProgressIndicator color={getMainColor()} rounded="$md" />
+          </Progress>
+          <Text color="$danger10">{error()}</Text>
+        </VStack>
+      </Match>
+      <Match when={header() && !decrypted()}>
+        <VStack w="$full" spacing="$2" py="$8">
+          <Text>{t("home.preview.encrypted_file")}</Text>
+          <HStack spacing="$2">
+            <Input
+              type="password"
+              value={passphrase()}
+              placeholder={t("home.toolbar.e2ee_passphrase")}
+              onInput={(e) => setPassphrase(e.currentTarget.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") unlock()
+              }}
+            />
+            <Button
+              colorScheme="accent"
+              loading={checking()}
+              disabled={!passphrase()}
+              onClick={unlock}
+            >
+              {t("home.preview.unlock")}
+            </Button>
+          </HStack>
+          <Text color="$danger10">{error()}</Text>
+        </VStack>
+      </Match>
+    </Switch>
+  )
+}
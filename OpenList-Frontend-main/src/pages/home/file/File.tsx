@@ -6,6 +6,7 @@ import { objStore } from "~/store"
 import { Download } from "../previews/download"
 import { OpenWith } from "./open-with"
 import { getPreviews } from "../previews"
+import { Encrypted } from "./Encrypted"
 
 const File = () => {
   const previews = createMemo(() => {
@@ -13,24 +14,26 @@ const File = () => {
   })
   const [cur, setCur] = createSignal(previews()[0])
   return (
-    <Show when={previews().length > 1} fallback={<Download openWith />}>
-      <VStack w="$full" spacing="$2">
-        <HStack w="$full" spacing="$2">
-          <SelectWrapper
-            alwaysShowBorder
-            value={cur().name}
-            onChange={(name) => {
-              setCur(previews().find((p) => p.name === name)!)
-            }}
-            options={previews().map((item) => ({ value: item.name }))}
-          />
-          <OpenWith />
-        </HStack>
-        <Suspense fallback={<FullLoading />}>
-          <Dynamic component={cur().component} />
-        </Suspense>
-      </VStack>
-    </Show>
+    <Encrypted>
+      <Show when={previews().length > 1} fallback={<Download openWith />}>
+        <VStack w="$full" spacing="$2">
+          <HStack w="$full" spacing="$2">
+            <SelectWrapper
+              alwaysShowBorder
+              value={cur().name}
+              onChange={(name) => {
+                setCur(previews().find((p) => p.name === name)!)
+              }}
+              options={previews().map((item) => ({ value: item.name }))}
+            />
+            <OpenWith />
+          </HStack>
+          <Suspense fallback={<FullLoading />}>
+            <Dynamic component={cur().component} />
+          </Suspense>
+        </VStack>
+      </Show>
+    </Encrypted>
   )
 }
 
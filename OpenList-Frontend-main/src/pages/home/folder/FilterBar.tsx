@@ -0,0 +1,199 @@
+import {
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Stack,
+  Text,
+  VStack,
+} from "@hope-ui/solid"
+import { For, onCleanup, Show } from "solid-js"
+import { TbFilter, TbX } from "solid-icons/tb"
+import { SelectWrapper } from "~/components"
+import { useT } from "~/hooks"
+import {
+  filterActive,
+  filterOpen,
+  filterPatternInvalid,
+  folderFilter,
+  NameMatch,
+  objStore,
+  resetFolderFilter,
+  setFilterOpen,
+  setFolderFilter,
+  shownObjs,
+} from "~/store"
+import { ObjType } from "~/types"
+import { isMac } from "~/utils/compatibility"
+
+const MATCHES: NameMatch[] = ["substring", "glob", "regex"]
+
+const TYPES = [
+  { type: ObjType.FOLDER, name: "folder" },
+  { type: ObjType.IMAGE, name: "image" },
+  { type: ObjType.VIDEO, name: "video" },
+  { type: ObjType.AUDIO, name: "audio" },
+  { type: ObjType.TEXT, name: "text" },
+  { type: ObjType.UNKNOWN, name: "other" },
+]
+
+// Narrows the objs of the current folder in the browser, toggled with
+// Ctrl/Cmd+Shift+F
+export const FilterBar = () => {
+  const t = useT()
+  let nameInput: HTMLInputElement | undefined
+  const onKeydown = (e: KeyboardEvent) => {
+    if (
+      (e.ctrlKey || (isMac && e.metaKey)) &&
+      e.shiftKey &&
+      e.key.toLowerCase() === "f"
+    ) {
+      e.preventDefault()
+      if (filterOpen()) {
+        setFilterOpen(false)
+      } else {
+        setFilterOpen(true)
+        nameInput?.focus()
+      }
+    }
+  }
+  document.addEventListener("keydown", onKeydown)
+  onCleanup(() => {
+    document.removeEventListener("keydown", onKeydown)
+  })
+  const toggleType = (type: ObjType) =>
+    setFolderFilter("types", (types) =>
+      types.includes(type) ? types.filter((t) => t !== type) : [...types, type],
+    )
+  const close = () => {
+    resetFolderFilter()
+    setFilterOpen(false)
+  }
+
+  return (
+    <Show when={filterOpen()}>
+      <VStack
+        class="filter-bar"
+        w="$full"
+        p="$2"
+        spacing="$2"
+        rounded="$lg"
+        bgColor="$neutral2"
+        alignItems="start"
+      >
+        <HStack w="$full" spacing="$2">
+          <TbFilter />
+          <Input
+            ref={(el: HTMLInputElement) => {
+              nameInput = el
+              queueMicrotask(() => el.focus())
+            }}
+            size="sm"
+            flex="1"
+            value={folderFilter.name}
+            invalid={filterPatternInvalid()}
+            placeholder={t(`home.filter.name_${folderFilter.match}`)}
+            onInput={(e) => setFolderFilter("name", e.currentTarget.value)}
+            onKeyDown={(e: KeyboardEvent) => {
+              if (e.key === "Escape") close()
+            }}
+          />
+          <SelectWrapper
+            size="sm"
+            w="$32"
+            value={folderFilter.match}
+            onChange={(match) => setFolderFilter("match", match)}
+            options={MATCHES.map((match) => ({
+              value: match,
+              label: t(`home.filter.match_${match}`),
+            }))}
+          />
+          <Text size="sm" color="$neutral11" css={{ whiteSpace: "nowrap" }}>
+            {t("home.filter.shown", {
+              shown: shownObjs().length.toString(),
+              total: objStore.objs.length.toString(),
+            })}
+          </Text>
+          <IconButton
+            size="sm"
+            variant="ghost"
+            aria-label={t("global.close")}
+            icon={<TbX />}
+            onClick={close}
+          />
+        </HStack>
+        <HStack spacing="$1" flexWrap="wrap">
+          <For each={TYPES}>
+            {(item) => (
+              <Button
+                size="xs"
+                variant={
+                  folderFilter.types.includes(item.type) ? "solid" : "subtle"
+                }
+                colorScheme="neutral"
+                onClick={() => toggleType(item.type)}
+              >
+                {t(`home.filter.type_${item.name}`)}
+              </Button>
+            )}
+          </For>
+        </HStack>
+        <Stack
+          w="$full"
+          spacing="$2"
+          direction={{ "@initial": "column", "@md": "row" }}
+        >
+          <Input
+            size="sm"
+            value={folderFilter.extensions}
+            placeholder={t("home.filter.extensions")}
+            onInput={(e) =>
+              setFolderFilter("extensions", e.currentTarget.value)
+            }
+          />
+          <HStack spacing="$1">
+            <Input
+              size="sm"
+              type="number"
+              min={0}
+              value={folderFilter.minSize}
+              placeholder={t("home.filter.min_size")}
+              onInput={(e) => setFolderFilter("minSize", e.currentTarget.value)}
+            />
+            <Text>-</Text>
+            <Input
+              size="sm"
+              type="number"
+              min={0}
+              value={folderFilter.maxSize}
+              placeholder={t("home.filter.max_size")}
+              onInput={(e) => setFolderFilter("maxSize", e.currentTarget.value)}
+            />
+          </HStack>
+          <HStack spacing="$1">
+            <Input
+              size="sm"
+              type="date"
+              title={t("home.filter.modified_from")}
+              value={folderFilter.from}
+              onInput={(e) => setFolderFilter("from", e.currentTarget.value)}
+            />
+            <Text>-</Text>
+            <Input
+              size="sm"
+              type="date"
+              title={t("home.filter.modified_to")}
+              value={folderFilter.to}
+              onInput={(e) => setFolderFilter("to", e.currentTarget.value)}
+            />
+          </HStack>
+          <Show when={filterActive()}>
+            <Button size="sm" variant="subtle" onClick={resetFolderFilter}>
+              {t("home.filter.clear")}
+            </Button>
+          </Show>
+        </Stack>
+      </VStack>
+    </Show>
+  )
+}
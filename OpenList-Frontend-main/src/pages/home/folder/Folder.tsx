@@ -23,6 +23,7 @@ import lgFullscreen from "lightgallery/plugins/fullscreen"
 import "lightgallery/css/lightgallery-bundle.css"
 import { LightGallery } from "lightgallery/lightgallery"
 import { Search } from "./Search"
+import { FilterBar } from "./FilterBar"
 
 const ListLayout = lazy(() => import("./List"))
 const GridLayout = lazy(() => import("./Grid"))
@@ -70,6 +71,7 @@ const Folder = () => {
   const t = useT()
   return (
     <>
+      <FilterBar />
       <Switch>
         <Match when={layout() === "list"}>
           <ListLayout />
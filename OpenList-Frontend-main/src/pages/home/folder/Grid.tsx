@@ -2,13 +2,23 @@ import { Box, Grid, Text } from "@hope-ui/solid"
 import { For, Show } from "solid-js"
 import { GridItem } from "./GridItem"
 import "lightgallery/css/lightgallery-bundle.css"
-import { smartCountMsg, local, objStore } from "~/store"
-import { useSelectWithMouse } from "./helper"
+import { smartCountMsg, local } from "~/store"
+import { WindowVirtualList, WindowVirtualListRef } from "~/components"
+import { useKeyboardNavigation } from "./keyboard"
+import {
+  resolveSelectables,
+  useFolderItems,
+  useSelectWithMouse,
+} from "./helper"
 
 const GridLayout = () => {
   const { isMouseSupported, registerSelectContainer, captureContentMenu } =
     useSelectWithMouse()
   registerSelectContainer()
+  const { items, windowed } = useFolderItems()
+  let list: WindowVirtualListRef | undefined
+  useKeyboardNavigation(items, () => list)
+  const itemSize = () => parseInt(local["grid_item_size"])
   return (
     <>
       <Show when={local["show_count_msg"] === "visible"}>
@@ -18,21 +28,43 @@ const GridLayout = () => {
           </Text>
         </Box>
       </Show>
-      <Grid
+      <Box
         oncapture:contextmenu={captureContentMenu}
         class="viselect-container"
         w="$full"
-        gap="$1"
-        templateColumns={`repeat(auto-fill, minmax(${
-          parseInt(local["grid_item_size"]) + 20
-        }px,1fr))`}
       >
-        <For each={objStore.objs}>
-          {(obj, i) => {
-            return <GridItem obj={obj} index={i()} />
-          }}
-        </For>
-      </Grid>
+        <WindowVirtualList
+          each={items()}
+          enabled={windowed()}
+          rowHeight={itemSize() + 36}
+          minItemWidth={itemSize() + 20}
+          gap={4}
+          onRangeChange={resolveSelectables}
+          ref={(ref) => (list = ref)}
+        >
+          {(visible) => (
+            <Grid
+              w="$full"
+              gap="$1"
+              templateColumns={`repeat(auto-fill, minmax(${
+                itemSize() + 20
+              }px,1fr))`}
+            >
+              <For each={visible()}>
+                {(item) => {
+                  return (
+                    <GridItem
+                      obj={item.obj}
+                      index={item.index}
+                      windowed={windowed()}
+                    />
+                  )
+                }}
+              </For>
+            </Grid>
+          )}
+        </WindowVirtualList>
+      </Box>
     </>
   )
 }
@@ -3,14 +3,24 @@ import { Motion } from "solid-motionone"
 import { useContextMenu } from "solid-contextmenu"
 import { batch, Show } from "solid-js"
 import { CenterLoading, LinkWithPush, ImageWithError } from "~/components"
-import { usePath, useRouter, useUtil } from "~/hooks"
+import { useDragMove, usePath, useRouter, useUtil } from "~/hooks"
 import { checkboxOpen, getMainColor, local, selectIndex } from "~/store"
 import { ObjType, StoreObj } from "~/types"
-import { bus, hoverColor } from "~/utils"
+import { bus, hoverColor, pathJoin } from "~/utils"
 import { getIconByObj } from "~/utils/icon"
-import { ItemCheckbox, useSelectWithMouse } from "./helper"
+import {
+  cancelMouseSelection,
+  ItemCheckbox,
+  useSelectWithMouse,
+} from "./helper"
+import { focusedName } from "./keyboard"
 
-export const GridItem = (props: { obj: StoreObj; index: number }) => {
+export const GridItem = (props: {
+  obj: StoreObj
+  index: number
+  // rendered as it scrolls into view, without the entrance animation
+  windowed?: boolean
+}) => {
   const { isHide } = useUtil()
   if (isHide(props.obj)) {
     return null
@@ -24,12 +34,14 @@ export const GridItem = (props: { obj: StoreObj; index: number }) => {
     />
   )
   const { show } = useContextMenu({ id: 1 })
-  const { pushHref, to } = useRouter()
+  const { pushHref, to, pathname } = useRouter()
+  const { canDrag, dragStart, dragEnd, dropTarget } = useDragMove()
+  const drop = dropTarget(() => pathJoin(pathname(), props.obj.name))
   const { openWithDoubleClick, toggleWithClick, restoreSelectionCache } =
     useSelectWithMouse()
   return (
     <Motion.div
-      initial={{ opacity: 0, scale: 0.9 }}
+      initial={props.windowed ? false : { opacity: 0, scale: 0.9 }}
       animate={{ opacity: 1, scale: 1 }}
       transition={{ duration: 0.2 }}
       style={{
@@ -37,7 +49,10 @@ export const GridItem = (props: { obj: StoreObj; index: number }) => {
       }}
     >
       <VStack
-        classList={{ selected: !!props.obj.selected }}
+        classList={{
+          selected: !!props.obj.selected,
+          focused: props.obj.name === focusedName(),
+        }}
         class="grid-item viselect-item"
         data-index={props.index}
         w="$full"
@@ -54,7 +69,26 @@ export const GridItem = (props: { obj: StoreObj; index: number }) => {
         cursor={
           openWithDoubleClick() || toggleWithClick() ? "default" : "pointer"
         }
-        bgColor={props.obj.selected ? hoverColor() : undefined}
+        bgColor={
+          drop.over() ? "$info5" : props.obj.selected ? hoverColor() : undefined
+        }
+        {...(props.obj.is_dir ? drop.handlers : {})}
+        on:dragstart={(e: DragEvent) => {
+          if (!canDrag()) return
+          cancelMouseSelection()
+          if (!props.obj.selected) selectIndex(props.index, true, true)
+          dragStart(e)
+        }}
+        on:dragend={dragEnd}
+        css={
+          props.obj.name === focusedName()
+            ? {
+                outline: "2px solid",
+                outlineColor: getMainColor(),
+                outlineOffset: "-2px",
+              }
+            : undefined
+        }
         on:dblclick={() => {
           if (!openWithDoubleClick()) return
           selectIndex(props.index, true, true)
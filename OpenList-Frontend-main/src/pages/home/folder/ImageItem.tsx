@@ -10,7 +10,12 @@ import { bus } from "~/utils"
 import { getIconByObj } from "~/utils/icon"
 import { ItemCheckbox, useSelectWithMouse } from "./helper"
 
-export const ImageItem = (props: { obj: StoreObj; index: number }) => {
+export const ImageItem = (props: {
+  obj: StoreObj
+  index: number
+  // rendered as it scrolls into view, without the entrance animation
+  windowed?: boolean
+}) => {
   const { isHide } = useUtil()
   if (isHide(props.obj) || props.obj.type !== ObjType.IMAGE) {
     return null
@@ -25,12 +30,10 @@ export const ImageItem = (props: { obj: StoreObj; index: number }) => {
     useSelectWithMouse()
   return (
     <Motion.div
-      initial={{ opacity: 0, scale: 0.9 }}
+      initial={props.windowed ? false : { opacity: 0, scale: 0.9 }}
       animate={{ opacity: 1, scale: 1 }}
       transition={{ duration: 0.2 }}
-      style={{
-        "flex-grow": 1,
-      }}
+      style={props.windowed ? { width: "100%" } : { "flex-grow": 1 }}
     >
       <VStack
         w="$full"
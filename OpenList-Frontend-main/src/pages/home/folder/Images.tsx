@@ -1,27 +1,51 @@
 import { Box, Flex, Grid, Heading, Text, VStack } from "@hope-ui/solid"
 import { For, Show, createMemo } from "solid-js"
 import { ImageItem } from "./ImageItem"
-import { smartCountMsg, local, objStore } from "~/store"
+import { smartCountMsg, local } from "~/store"
 import { GridItem } from "./GridItem"
 import { ObjType, StoreObj } from "~/types"
 import { useT } from "~/hooks"
-import { useSelectWithMouse } from "./helper"
+import { WindowVirtualList } from "~/components"
+import {
+  resolveSelectables,
+  useFolderItems,
+  useSelectWithMouse,
+} from "./helper"
 
 const ImageLayout = (props: { images: StoreObj[] }) => {
   const t = useT()
+  const dirs = useFolderItems((obj) => obj.is_dir)
+  const images = useFolderItems((obj) => obj.type === ObjType.IMAGE)
   const folders = createMemo(() => (
-    <Grid
-      w="$full"
-      gap="$1"
-      templateColumns="repeat(auto-fill, minmax(100px,1fr))"
-      class="image-folders"
+    <WindowVirtualList
+      each={dirs.items()}
+      enabled={dirs.windowed()}
+      rowHeight={parseInt(local["grid_item_size"]) + 36}
+      minItemWidth={100}
+      gap={4}
+      onRangeChange={resolveSelectables}
     >
-      <For each={objStore.objs.filter((obj) => obj.is_dir)}>
-        {(obj, i) => {
-          return <GridItem obj={obj} index={i()} />
-        }}
-      </For>
-    </Grid>
+      {(visible) => (
+        <Grid
+          w="$full"
+          gap="$1"
+          templateColumns="repeat(auto-fill, minmax(100px,1fr))"
+          class="image-folders"
+        >
+          <For each={visible()}>
+            {(item) => {
+              return (
+                <GridItem
+                  obj={item.obj}
+                  index={item.index}
+                  windowed={dirs.windowed()}
+                />
+              )
+            }}
+          </For>
+        </Grid>
+      )}
+    </WindowVirtualList>
   ))
   const { isMouseSupported, registerSelectContainer, captureContentMenu } =
     useSelectWithMouse()
@@ -47,13 +71,50 @@ const ImageLayout = (props: { images: StoreObj[] }) => {
         when={props.images.length > 0}
         fallback={<Heading m="$2">{t("home.no_images")}</Heading>}
       >
-        <Flex w="$full" gap="$1" flexWrap="wrap" class="image-images">
-          <For each={objStore.objs}>
-            {(obj, i) => {
-              return <ImageItem obj={obj} index={i()} />
-            }}
-          </For>
-        </Flex>
+        <WindowVirtualList
+          each={images.items()}
+          enabled={images.windowed()}
+          rowHeight={166}
+          minItemWidth={150}
+          gap={4}
+          onRangeChange={resolveSelectables}
+        >
+          {(visible) => {
+            const list = () => (
+              <For each={visible()}>
+                {(item) => {
+                  return (
+                    <ImageItem
+                      obj={item.obj}
+                      index={item.index}
+                      windowed={images.windowed()}
+                    />
+                  )
+                }}
+              </For>
+            )
+            // tiles of one width, rows of them have one height
+            return (
+              <Show
+                when={images.windowed()}
+                fallback={
+                  <Flex w="$full" gap="$1" flexWrap="wrap" class="image-images">
+                    {list()}
+                  </Flex>
+                }
+              >
+                <Grid
+                  w="$full"
+                  gap="$1"
+                  templateColumns="repeat(auto-fill, minmax(150px,1fr))"
+                  class="image-images"
+                >
+                  {list()}
+                </Grid>
+              </Show>
+            )
+          }}
+        </WindowVirtualList>
       </Show>
       <Show when={local["show_folder_in_image_view"] === "bottom"}>
         {folders()}
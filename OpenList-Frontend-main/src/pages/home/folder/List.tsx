@@ -1,47 +1,28 @@
 import { HStack, VStack, Text } from "@hope-ui/solid"
-import { batch, createEffect, createSignal, For, Show, onMount } from "solid-js"
-import { useT, useRouter } from "~/hooks"
+import { batch, createEffect, createSignal, For, Show, untrack } from "solid-js"
+import { useT } from "~/hooks"
 import {
   allChecked,
   checkboxOpen,
   countMsg,
   isIndeterminate,
   local,
-  objStore,
   selectAll,
   selectedMsg,
-  sortObjs,
+  setSortOrder,
+  sortOrder,
 } from "~/store"
 import { OrderBy } from "~/store"
 import { Col, cols, ListItem } from "./ListItem"
-import { ItemCheckbox, useSelectWithMouse } from "./helper"
+import {
+  ItemCheckbox,
+  resolveSelectables,
+  useFolderItems,
+  useSelectWithMouse,
+} from "./helper"
 import { bus } from "~/utils"
-
-export interface SortState {
-  orderBy: string
-  reverse: boolean
-}
-
-const SORT_KEY_PREFIX = "dir_sort_"
-
-export function saveSortState(dir: string, state: SortState) {
-  try {
-    localStorage.setItem(`${SORT_KEY_PREFIX}${dir}`, JSON.stringify(state))
-  } catch (err) {
-    console.warn("failed to save sort config:", err)
-  }
-}
-
-export function loadSortState(dir: string): SortState | null {
-  try {
-    const item = localStorage.getItem(`${SORT_KEY_PREFIX}${dir}`)
-    if (!item) return null
-    return JSON.parse(item) as SortState
-  } catch (err) {
-    console.warn("failed to read sort config:", err)
-    return null
-  }
-}
+import { WindowVirtualList, WindowVirtualListRef } from "~/components"
+import { useKeyboardNavigation } from "./keyboard"
 
 export const ListTitle = (props: {
   sortCallback: (orderBy: OrderBy, reverse?: boolean) => void
@@ -50,7 +31,6 @@ export const ListTitle = (props: {
   initialReverse?: boolean
 }) => {
   const t = useT()
-  const { pathname } = useRouter()
 
   const [orderBy, setOrderBy] = createSignal<OrderBy | undefined>(
     props.initialOrder,
@@ -65,10 +45,9 @@ export const ListTitle = (props: {
   })
 
   createEffect(() => {
-    if (orderBy()) {
-      saveSortState(pathname(), { orderBy: orderBy()!, reverse: reverse() })
-      props.sortCallback(orderBy()!, reverse())
-    }
+    const by = orderBy()
+    const rev = reverse()
+    if (by) untrack(() => props.sortCallback(by, rev))
   })
 
   const itemProps = (col: Col) => {
@@ -123,22 +102,11 @@ export const ListTitle = (props: {
 }
 
 const ListLayout = () => {
-  const { pathname } = useRouter()
-
-  const [initialOrder, setInitialOrder] = createSignal<OrderBy>()
-  const [initialReverse, setInitialReverse] = createSignal(false)
-
   const { registerSelectContainer, captureContentMenu } = useSelectWithMouse()
   registerSelectContainer()
-
-  onMount(() => {
-    const saved = loadSortState(pathname())
-    if (saved) {
-      setInitialOrder(saved.orderBy as OrderBy)
-      setInitialReverse(saved.reverse)
-      sortObjs(saved.orderBy as OrderBy, saved.reverse)
-    }
-  })
+  const { items, windowed } = useFolderItems()
+  let list: WindowVirtualListRef | undefined
+  useKeyboardNavigation(items, () => list)
 
   const onDragOver = (e: DragEvent) => {
     const items = Array.from(e.dataTransfer?.items ?? [])
@@ -161,15 +129,34 @@ const ListLayout = () => {
       spacing="$1"
     >
       <ListTitle
-        sortCallback={sortObjs}
-        initialOrder={initialOrder()}
-        initialReverse={initialReverse()}
+        sortCallback={(orderBy, reverse) => setSortOrder({ orderBy, reverse })}
+        initialOrder={sortOrder()?.orderBy}
+        initialReverse={sortOrder()?.reverse}
       />
-      <For each={objStore.objs}>
-        {(obj, i) => {
-          return <ListItem obj={obj} index={i()} />
-        }}
-      </For>
+      <WindowVirtualList
+        each={items()}
+        enabled={windowed()}
+        rowHeight={44}
+        gap={4}
+        onRangeChange={resolveSelectables}
+        ref={(ref) => (list = ref)}
+      >
+        {(visible) => (
+          <VStack w="$full" spacing="$1">
+            <For each={visible()}>
+              {(item) => {
+                return (
+                  <ListItem
+                    obj={item.obj}
+                    index={item.index}
+                    windowed={windowed()}
+                  />
+                )
+              }}
+            </For>
+          </VStack>
+        )}
+      </WindowVirtualList>
       <Show when={local["show_count_msg"] === "visible"}>
         <Text size="sm" color="$neutral11">
           {countMsg()}
@@ -10,7 +10,7 @@ import { Motion } from "solid-motionone"
 import { useContextMenu } from "solid-contextmenu"
 import { batch, Show } from "solid-js"
 import { LinkWithPush } from "~/components"
-import { usePath, useRouter, useUtil } from "~/hooks"
+import { useDragMove, usePath, useRouter, useUtil } from "~/hooks"
 import {
   checkboxOpen,
   getMainColor,
@@ -29,9 +29,15 @@ import {
   usedPercentage,
   toReadableUsage,
   nearlyFull,
+  pathJoin,
 } from "~/utils"
 import { getIconByObj } from "~/utils/icon"
-import { ItemCheckbox, useSelectWithMouse } from "./helper"
+import {
+  cancelMouseSelection,
+  ItemCheckbox,
+  useSelectWithMouse,
+} from "./helper"
+import { focusedName } from "./keyboard"
 
 export interface Col {
   name: OrderBy
@@ -45,20 +51,27 @@ export const cols: Col[] = [
   { name: "modified", textAlign: "right", w: { "@initial": 0, "@md": "33%" } },
 ]
 
-export const ListItem = (props: { obj: StoreObj; index: number }) => {
+export const ListItem = (props: {
+  obj: StoreObj
+  index: number
+  // rendered as it scrolls into view, without the entrance animation
+  windowed?: boolean
+}) => {
   const { isHide } = useUtil()
   if (isHide(props.obj)) {
     return null
   }
   const { setPathAs } = usePath()
   const { show } = useContextMenu({ id: 1 })
-  const { pushHref, to } = useRouter()
+  const { pushHref, to, pathname } = useRouter()
+  const { canDrag, dragStart, dragEnd, dropTarget } = useDragMove()
+  const drop = dropTarget(() => pathJoin(pathname(), props.obj.name))
   const { openWithDoubleClick, toggleWithClick, restoreSelectionCache } =
     useSelectWithMouse()
   const filenameStyle = () => local["list_item_filename_overflow"]
   return (
     <Motion.div
-      initial={{ opacity: 0, scale: 0.95 }}
+      initial={props.windowed ? false : { opacity: 0, scale: 0.95 }}
       animate={{ opacity: 1, scale: 1 }}
       transition={{ duration: 0.2 }}
       style={{
@@ -66,7 +79,10 @@ export const ListItem = (props: { obj: StoreObj; index: number }) => {
       }}
     >
       <HStack
-        classList={{ selected: !!props.obj.selected }}
+        classList={{
+          selected: !!props.obj.selected,
+          focused: props.obj.name === focusedName(),
+        }}
         class="list-item viselect-item"
         data-index={props.index}
         w="$full"
@@ -82,7 +98,26 @@ export const ListItem = (props: { obj: StoreObj; index: number }) => {
         cursor={
           openWithDoubleClick() || toggleWithClick() ? "default" : "pointer"
         }
-        bgColor={props.obj.selected ? hoverColor() : undefined}
+        bgColor={
+          drop.over() ? "$info5" : props.obj.selected ? hoverColor() : undefined
+        }
+        {...(props.obj.is_dir ? drop.handlers : {})}
+        on:dragstart={(e: DragEvent) => {
+          if (!canDrag()) return
+          cancelMouseSelection()
+          if (!props.obj.selected) selectIndex(props.index, true, true)
+          dragStart(e)
+        }}
+        on:dragend={dragEnd}
+        css={
+          props.obj.name === focusedName()
+            ? {
+                outline: "2px solid",
+                outlineColor: getMainColor(),
+                outlineOffset: "-2px",
+              }
+            : undefined
+        }
         on:dblclick={() => {
           if (!openWithDoubleClick()) return
           selectIndex(props.index, true, true)
@@ -1,21 +1,57 @@
 import { Checkbox, hope } from "@hope-ui/solid"
-import { createEffect, onCleanup } from "solid-js"
+import { createEffect, createMemo, onCleanup } from "solid-js"
 import { useContextMenu } from "solid-contextmenu"
 import SelectionArea from "@viselect/vanilla"
 import {
   checkboxOpen,
   haveSelected,
   local,
+  objMatchesFilter,
   objStore,
   oneChecked,
   selectAll,
   selectedObjs,
   selectIndex,
 } from "~/store"
+import { useUtil } from "~/hooks"
 import { isMobile } from "~/utils/compatibility"
 import { StoreObj } from "~/types"
 
 let selectedCache: StoreObj[] | null = null
+let activeSelection: SelectionArea | undefined
+
+// Folders with more items than this only render the items in view
+export const WINDOWED_FROM = 200
+
+export interface FolderItem {
+  obj: StoreObj
+  // index in objStore.objs, the one selectIndex takes
+  index: number
+}
+
+// The items a layout shows, hidden and filtered out objs left out
+export const useFolderItems = (filter?: (obj: StoreObj) => boolean) => {
+  const { isHide } = useUtil()
+  const items = createMemo(() =>
+    objStore.objs.flatMap((obj, index) =>
+      isHide(obj) || !objMatchesFilter(obj) || (filter && !filter(obj))
+        ? []
+        : [{ obj, index }],
+    ),
+  )
+  const windowed = () => items().length > WINDOWED_FROM
+  return { items, windowed }
+}
+
+// Items scrolled into view while selecting with the mouse become selectable
+export const resolveSelectables = () => {
+  activeSelection?.resolveSelectables()
+}
+
+// Dragging items away is no selection with the mouse
+export const cancelMouseSelection = () => {
+  activeSelection?.cancel()
+}
 
 export function useSelectWithMouse() {
   const isMouseSupported = () => !isMobile && checkboxOpen()
@@ -58,6 +94,7 @@ export function useSelectWithMouse() {
         boundaries: [".viselect-container"],
         selectables: [".viselect-item"],
       })
+      activeSelection = selection
       selection.on("beforestart", () => {
         saveSelectionCache()
         selection.clearSelection(true, true)
@@ -84,11 +121,16 @@ export function useSelectWithMouse() {
             selectIndex(Number(el.getAttribute("data-index")), true)
           }
           for (const el of removed) {
+            // scrolled out of view, not out of the selection area
+            if (!el.isConnected) continue
             selectIndex(Number(el.getAttribute("data-index")), false)
           }
         },
       )
-      onCleanup(() => selection.destroy())
+      onCleanup(() => {
+        if (activeSelection === selection) activeSelection = undefined
+        selection.destroy()
+      })
     })
   }
 
@@ -0,0 +1,158 @@
+import { Accessor, createSignal, on, createEffect, onCleanup } from "solid-js"
+import { WindowVirtualListRef } from "~/components"
+import { useRouter } from "~/hooks"
+import {
+  haveSelected,
+  objStore,
+  selectAll,
+  selectIndex,
+  State,
+  userCan,
+} from "~/store"
+import { bus, pathDir } from "~/utils"
+import { FolderItem } from "./helper"
+
+// Name of the obj the keyboard moves from, the focus of the layout
+const [focusedName, setFocusedName] = createSignal<string>()
+export { focusedName }
+
+// Keys typed in a row jump to the first name starting with them
+const TYPE_AHEAD_TIMEOUT = 1000
+
+// Elements that take the keys themselves
+const KEY_TAKERS =
+  "input, textarea, select, [contenteditable=true], [role=dialog], [role=menu]"
+
+export const useKeyboardNavigation = (
+  items: Accessor<FolderItem[]>,
+  list: () => WindowVirtualListRef | undefined,
+) => {
+  const { pathname, pushHref, to, isShare } = useRouter()
+  createEffect(on(pathname, () => setFocusedName(undefined)))
+
+  let typed = ""
+  let typedAt = 0
+
+  const focusedPosition = () =>
+    items().findIndex((item) => item.obj.name === focusedName())
+
+  const focus = (position: number, extend: boolean) => {
+    const all = items()
+    if (all.length === 0) return
+    const item = all[Math.min(all.length - 1, Math.max(0, position))]
+    setFocusedName(item.obj.name)
+    // Shift extends the selection from the last selected obj
+    if (extend) selectIndex(item.index, true)
+    list()?.scrollToItem(all.indexOf(item))
+  }
+
+  const focusedItem = () => items()[focusedPosition()]
+
+  // the tools act on the selection, the focused obj is it when none is
+  const emitTool = (name: "delete" | "rename") => {
+    if (isShare() || !userCan(name)) return
+    const item = focusedItem()
+    if (item && !haveSelected()) selectIndex(item.index, true, true)
+    bus.emit("tool", name)
+  }
+
+  const typeAhead = (key: string) => {
+    const now = Date.now()
+    typed = now - typedAt > TYPE_AHEAD_TIMEOUT ? key : typed + key
+    typedAt = now
+    const prefix = typed.toLowerCase()
+    const all = items()
+    // the same key again moves on to the next name starting with it
+    const from =
+      typed.length === 1
+        ? focusedPosition() + 1
+        : Math.max(0, focusedPosition())
+    for (let i = 0; i < all.length; i++) {
+      const position = (from + i) % all.length
+      if (all[position].obj.name.toLowerCase().startsWith(prefix)) {
+        focus(position, false)
+        return
+      }
+    }
+  }
+
+  const toParent = () => {
+    const depth = pathname().split("/").filter(Boolean).length
+    if (depth === 0 || (isShare() && depth <= 2)) return
+    to(pathDir(pathname()) || "/")
+  }
+
+  const onKeydown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || objStore.state !== State.Folder) return
+    if ((e.target as Element | null)?.closest?.(KEY_TAKERS)) return
+    // the gallery handles its own keys
+    if (document.querySelector(".lg-show")) return
+    const ctrl = e.ctrlKey || e.metaKey
+    const columns = list()?.columns() ?? 1
+    const page = columns * (list()?.rowsInView() ?? 10)
+    const position = focusedPosition()
+    const move = (target: number) => {
+      e.preventDefault()
+      // the first key only shows where the focus is
+      focus(position < 0 ? 0 : target, e.shiftKey)
+    }
+    switch (e.key) {
+      case "ArrowDown":
+        return move(position + columns)
+      case "ArrowUp":
+        if (e.altKey) {
+          e.preventDefault()
+          return toParent()
+        }
+        return move(position - columns)
+      case "ArrowRight":
+        if (columns > 1) move(position + 1)
+        return
+      case "ArrowLeft":
+        if (columns > 1) move(position - 1)
+        return
+      case "PageDown":
+        return move(position + page)
+      case "PageUp":
+        return move(position - page)
+      case "Home":
+        return move(0)
+      case "End":
+        return move(items().length - 1)
+      case "Enter": {
+        const item = focusedItem()
+        if (!item) return
+        e.preventDefault()
+        to(pushHref(item.obj.name))
+        return
+      }
+      case "Backspace":
+        e.preventDefault()
+        return toParent()
+      case " ": {
+        const item = focusedItem()
+        if (!item) return
+        e.preventDefault()
+        selectIndex(item.index, !item.obj.selected)
+        return
+      }
+      case "Delete":
+        return emitTool("delete")
+      case "F2":
+        e.preventDefault()
+        return emitTool("rename")
+    }
+    if (ctrl && e.key.toLowerCase() === "a") {
+      e.preventDefault()
+      selectAll(true)
+      return
+    }
+    if (e.key.length === 1 && !ctrl && !e.altKey) {
+      typeAhead(e.key)
+    }
+  }
+  document.addEventListener("keydown", onKeydown)
+  onCleanup(() => {
+    document.removeEventListener("keydown", onKeydown)
+  })
+}
@@ -25,6 +25,7 @@ import {
 } from "solid-js"
 import { Dynamic } from "solid-js/web"
 import {
+  compareObjs,
   getMainColor,
   local,
   me,
@@ -55,7 +56,6 @@ import {
   getFileSize,
   hoverColor,
 } from "~/utils"
-import naturalSort from "typescript-natural-sort"
 import Password from "~/pages/home/Password"
 import { useSelectWithMouse } from "~/pages/home/folder/helper"
 import { getIconByObj } from "~/utils/icon"
@@ -371,9 +371,7 @@ const Preview = () => {
   const sortedObjs = () => {
     let ret = objs()
     if (orderBy()) {
-      ret = ret.sort((a, b) => {
-        return (reverse() ? -1 : 1) * naturalSort(a[orderBy()!], b[orderBy()!])
-      })
+      ret = ret.sort(compareObjs({ orderBy: orderBy()!, reverse: reverse() }))
     }
     let ef = extractFolder()
     if (ef !== "") {
@@ -27,41 +27,53 @@ export const Download = (props: { openWith?: boolean }) => {
   }).then((url) => setQrUrl(url))
   const [pinned, setPinned] = createSignal(false)
   const [hover, setHover] = createSignal(false)
+  // a file decrypted in the browser has no link to give out
+  const decrypted = () => objStore.raw_url.startsWith("blob:")
   return (
     <FileInfo>
       <HStack spacing="$2">
-        <Button colorScheme="accent" onClick={() => copyCurrentRawLink(true)}>
-          {t("home.toolbar.copy_link")}
-        </Button>
-        <Button as="a" href={objStore.raw_url} target="_blank">
+        <Show when={!decrypted()}>
+          <Button colorScheme="accent" onClick={() => copyCurrentRawLink(true)}>
+            {t("home.toolbar.copy_link")}
+          </Button>
+        </Show>
+        <Button
+          as="a"
+          href={objStore.raw_url}
+          target="_blank"
+          // a file decrypted in the browser keeps its name
+          download={decrypted() ? objStore.obj.name : undefined}
+        >
           {t("home.preview.download")}
         </Button>
-        <Popover opened={pinned() || hover()} motionPreset="none">
-          <PopoverTrigger
-            as={IconButton}
-            icon={<BsQrCode />}
-            aria-label="QRCode"
-            colorScheme="success"
-            onClick={() => {
-              setPinned(!pinned())
-            }}
-            onMouseOver={() => setHover(true)}
-            onMouseOut={() => setHover(false)}
-          />
-          <PopoverContent width="fit-content">
-            <PopoverArrow />
-            <PopoverBody>
-              <Image
-                maxWidth="300px"
-                src={qrUrl()}
-                alt="QR Code of download link"
-                objectFit="cover"
-              />
-            </PopoverBody>
-          </PopoverContent>
-        </Popover>
+        <Show when={!decrypted()}>
+          <Popover opened={pinned() || hover()} motionPreset="none">
+            <PopoverTrigger
+              as={IconButton}
+              icon={<BsQrCode />}
+              aria-label="QRCode"
+              colorScheme="success"
+              onClick={() => {
+                setPinned(!pinned())
+              }}
+              onMouseOver={() => setHover(true)}
+              onMouseOut={() => setHover(false)}
+            />
+            <PopoverContent width="fit-content">
+              <PopoverArrow />
+              <PopoverBody>
+                <Image
+                  maxWidth="300px"
+                  src={qrUrl()}
+                  alt="QR Code of download link"
+                  objectFit="cover"
+                />
+              </PopoverBody>
+            </PopoverContent>
+          </Popover>
+        </Show>
       </HStack>
-      <Show when={props.openWith}>
+      <Show when={props.openWith && !decrypted()}>
         <OpenWith />
       </Show>
     </FileInfo>
@@ -1,6 +1,7 @@
 import { Error, FullLoading } from "~/components"
 import { useCDN, useRouter, useT } from "~/hooks"
 import { objStore } from "~/store"
+import { loadLibheif } from "./libheif"
 import { onCleanup, onMount, createSignal, Show } from "solid-js"
 
 const Preview = () => {
@@ -53,16 +54,8 @@ const Preview = () => {
     setError(false)
 
     try {
-      // 动态加载libheif脚本
-      if (!window.libheif) {
-        await loadScript(`${libHeifPath()}/libheif.js`, "libheif-script")
-      }
-
-      // 加载WASM文件
-      const wasmBinary = await fetchWasm(`${libHeifPath()}/libheif.wasm`)
-
-      // 初始化libheif
-      libheif = window.libheif({ wasmBinary })
+      // 加载并初始化libheif
+      libheif = await loadLibheif(libHeifPath())
       decoder = new libheif.HeifDecoder()
 
       // 加载并解码当前HEIC文件
@@ -74,24 +67,6 @@ const Preview = () => {
     }
   }
 
-  // 加载脚本
-  const loadScript = (src: string, id: string) =>
-    new Promise<void>((resolve, reject) => {
-      const script = document.createElement("script")
-      script.src = src
-      script.id = id
-      script.onload = () => resolve()
-      script.onerror = () => reject(`脚本加载失败: ${src}`)
-      document.head.appendChild(script)
-    })
-
-  // 获取WASM文件
-  const fetchWasm = async (url: string) => {
-    const response = await fetch(url)
-    if (!response.ok) throw `WASM加载失败: ${url}`
-    return await response.arrayBuffer()
-  }
-
   // 加载并解码HEIC文件
   const loadAndDecode = async (url: string) => {
     try {
@@ -0,0 +1,62 @@
+// libheif is loaded once from the static files and shared by the HEIC
+// preview and the uploader's image conversion
+
+let loading: Promise<any> | undefined
+
+const loadScript = (src: string, id: string) =>
+  new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script")
+    script.src = src
+    script.id = id
+    script.onload = () => resolve()
+    script.onerror = () => reject(`脚本加载失败: ${src}`)
+    document.head.appendChild(script)
+  })
+
+const fetchWasm = async (url: string) => {
+  const response = await fetch(url)
+  if (!response.ok) throw `WASM加载失败: ${url}`
+  return await response.arrayBuffer()
+}
+
+// path is the folder of libheif.js and libheif.wasm, see useCDN
+export const loadLibheif = (path: string) => {
+  if (!loading) {
+    loading = (async () => {
+      if (!window.libheif) {
+        await loadScript(`${path}/libheif.js`, "libheif-script")
+      }
+      const wasmBinary = await fetchWasm(`${path}/libheif.wasm`)
+      return window.libheif({ wasmBinary })
+    })()
+    loading.catch(() => {
+      loading = undefined
+    })
+  }
+  return loading
+}
+
+// Decode the primary image of a HEIC/HEIF file
+export const decodeHeif = async (
+  path: string,
+  buffer: ArrayBuffer,
+): Promise<ImageData> => {
+  const libheif = await loadLibheif(path)
+  const decoder = new libheif.HeifDecoder()
+  const images = decoder.decode(buffer)
+  if (!images || images.length === 0) {
+    throw new Error("No decodable image")
+  }
+  const image = images[0]
+  const width = image.get_width()
+  const height = image.get_height()
+  try {
+    return await new Promise<ImageData>((resolve, reject) => {
+      image.display(new ImageData(width, height), (data: ImageData | null) =>
+        data ? resolve(data) : reject(new Error("HEIF decoding failed")),
+      )
+    })
+  } finally {
+    images.forEach((image: any) => image.free?.())
+  }
+}
@@ -14,7 +14,7 @@ import {
 } from "@hope-ui/solid"
 import { createSignal, lazy, onCleanup, Show, Suspense } from "solid-js"
 import { FullLoading } from "~/components"
-import { useT, useDownload } from "~/hooks"
+import { useT, useDownload, useEncrypted } from "~/hooks"
 import { getSettingBool, me } from "~/store"
 import { UserMethods } from "~/types"
 import { bus } from "~/utils"
@@ -64,9 +64,11 @@ const PackageDownload = lazy(() => import("./PackageDownload"))
 
 export const PackageDownloadModal = () => {
   const t = useT()
-  const handler = (name: string) => {
+  const { refuseEncryptedLinks } = useEncrypted()
+  const handler = async (name: string) => {
     if (name === "package_download") {
       if (!getSettingBool("package_download")) return
+      if (await refuseEncryptedLinks()) return
       onOpen()
     }
   }
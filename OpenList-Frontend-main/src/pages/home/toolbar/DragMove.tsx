@@ -0,0 +1,205 @@
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Checkbox,
+  HStack,
+  Text,
+  VStack,
+} from "@hope-ui/solid"
+import { createEffect, createSignal, on, Show } from "solid-js"
+import {
+  PendingDrop,
+  pendingDrop,
+  setPendingDrop,
+  useFetch,
+  usePath,
+  useT,
+} from "~/hooks"
+import {
+  fsCopy,
+  fsMove,
+  fsRemove,
+  handleResp,
+  handleRespWithNotifySuccess,
+  notify,
+} from "~/utils"
+
+// The toast of a drop, rendered outside the router so it gets the undo
+// ready made
+const Undo = (props: {
+  message: string
+  undoText: string
+  onUndo: () => Promise<boolean>
+}) => {
+  const [loading, setLoading] = createSignal(false)
+  const [done, setDone] = createSignal(false)
+  return (
+    <HStack spacing="$2">
+      <Text>{props.message}</Text>
+      <Button
+        size="sm"
+        colorScheme="accent"
+        loading={loading()}
+        disabled={done()}
+        onClick={async () => {
+          setLoading(true)
+          setDone(await props.onUndo())
+          setLoading(false)
+        }}
+      >
+        {props.undoText}
+      </Button>
+    </HStack>
+  )
+}
+
+// Confirms a drop of objs onto a folder with the conflict options of the
+// copy and move modals
+export const DragMove = () => {
+  const t = useT()
+  const { refresh } = usePath()
+  const [moveLoading, move] = useFetch(fsMove)
+  const [copyLoading, copy] = useFetch(fsCopy)
+  const [overwrite, setOverwrite] = createSignal(false)
+  const [skipExisting, setSkipExisting] = createSignal(false)
+  const [merge, setMerge] = createSignal(false)
+  createEffect(
+    on(pendingDrop, (drop) => {
+      if (!drop) return
+      setOverwrite(false)
+      setSkipExisting(false)
+      setMerge(false)
+    }),
+  )
+  const onClose = () => setPendingDrop(undefined)
+  // moved objs are moved back, copies removed
+  const undo = async (drop: PendingDrop) => {
+    const resp = drop.copy
+      ? await fsRemove(drop.dstDir, drop.names)
+      : await fsMove(drop.dstDir, drop.srcDir, drop.names, false, false)
+    let undone = false
+    handleRespWithNotifySuccess(resp, () => {
+      undone = true
+      refresh()
+    })
+    return undone
+  }
+  const submit = async () => {
+    const drop = pendingDrop()!
+    const resp = drop.copy
+      ? await copy(
+          drop.srcDir,
+          drop.dstDir,
+          drop.names,
+          overwrite(),
+          skipExisting(),
+          merge(),
+        )
+      : await move(
+          drop.srcDir,
+          drop.dstDir,
+          drop.names,
+          overwrite(),
+          skipExisting(),
+        )
+    handleResp(resp, (data) => {
+      refresh()
+      onClose()
+      const message = t(drop.copy ? "home.drag.copied" : "home.drag.moved", {
+        count: drop.names.length,
+        dst: drop.dstDir,
+      })
+      // objs skipped, merged into or overwritten were there before, taking
+      // the drop back would take them too or can't bring them back. Between
+      // storages the drop runs on as tasks, there is nothing to take back yet.
+      if (overwrite() || skipExisting() || merge() || data?.tasks?.length) {
+        notify.success(message)
+        return
+      }
+      notify.render(
+        <Undo
+          message={message}
+          undoText={t("home.drag.undo")}
+          onUndo={() => undo(drop)}
+        />,
+      )
+    })
+  }
+  return (
+    <Modal
+      blockScrollOnMount={false}
+      opened={!!pendingDrop()}
+      onClose={onClose}
+      size={{
+        "@initial": "xs",
+        "@md": "md",
+      }}
+    >
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          {t(pendingDrop()?.copy ? "home.toolbar.copy" : "home.toolbar.move")}
+        </ModalHeader>
+        <ModalBody>
+          <VStack w="$full" spacing="$2" alignItems="start">
+            <Text>
+              {t(
+                pendingDrop()?.copy ? "home.drag.copy_to" : "home.drag.move_to",
+                {
+                  count: pendingDrop()?.names.length ?? 0,
+                  dst: pendingDrop()?.dstDir ?? "",
+                },
+              )}
+            </Text>
+            <Checkbox
+              checked={overwrite()}
+              onChange={() => {
+                const curOverwrite = !overwrite()
+                if (curOverwrite) {
+                  setSkipExisting(false)
+                  setMerge(false)
+                }
+                setOverwrite(curOverwrite)
+              }}
+            >
+              {t("home.conflict_policy.overwrite_existing")}
+            </Checkbox>
+            <Checkbox
+              checked={skipExisting()}
+              onChange={() => {
+                setSkipExisting(!skipExisting())
+              }}
+              disabled={overwrite() || merge()}
+            >
+              {t("home.conflict_policy.skip_existing")}
+            </Checkbox>
+            <Show when={pendingDrop()?.copy}>
+              <Checkbox
+                checked={merge()}
+                onChange={() => {
+                  setMerge(!merge())
+                }}
+                disabled={overwrite() || skipExisting()}
+              >
+                {t("home.conflict_policy.merge")}
+              </Checkbox>
+            </Show>
+          </VStack>
+        </ModalBody>
+        <ModalFooter display="flex" gap="$2">
+          <Button onClick={onClose} colorScheme="neutral">
+            {t("global.cancel")}
+          </Button>
+          <Button loading={moveLoading() || copyLoading()} onClick={submit}>
+            {t("global.confirm")}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
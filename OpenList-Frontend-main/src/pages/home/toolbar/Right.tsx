@@ -2,17 +2,31 @@ import { Box, createDisclosure, VStack } from "@hope-ui/solid"
 import { createMemo, Show } from "solid-js"
 import { RightIcon } from "./Icon"
 import { CgMoreO } from "solid-icons/cg"
-import { TbCheckbox } from "solid-icons/tb"
-import { objStore, selectAll, State, toggleCheckbox, userCan } from "~/store"
-import { bus } from "~/utils"
+import { TbArrowsSort, TbCheckbox, TbFilter } from "solid-icons/tb"
+import {
+  filterOpen,
+  lockFolder,
+  objStore,
+  selectAll,
+  setFilterOpen,
+  State,
+  toggleCheckbox,
+  unlockedFolderOf,
+  userCan,
+} from "~/store"
+import { bus, notify } from "~/utils"
 import { operations } from "./operations"
 import { IoMagnetOutline } from "solid-icons/io"
 import { AiOutlineCloudUpload, AiOutlineSetting } from "solid-icons/ai"
 import { RiSystemRefreshLine } from "solid-icons/ri"
-import { usePath, useRouter } from "~/hooks"
+import { usePath, useRouter, useT } from "~/hooks"
 import { Motion } from "solid-motionone"
 import { isTocVisible, setTocDisabled } from "~/components"
-import { BiSolidBookContent } from "solid-icons/bi"
+import {
+  BiSolidBookContent,
+  BiSolidLock,
+  BiSolidLockOpen,
+} from "solid-icons/bi"
 
 export const Right = () => {
   const { isOpen, onToggle } = createDisclosure({
@@ -22,8 +36,10 @@ export const Right = () => {
   })
   const margin = createMemo(() => (isOpen() ? "$4" : "$5"))
   const isFolder = createMemo(() => objStore.state === State.Folder)
+  const isFile = createMemo(() => objStore.state === State.File)
   const { refresh } = usePath()
-  const { isShare } = useRouter()
+  const { isShare, pathname } = useRouter()
+  const t = useT()
   return (
     <Box
       class="left-toolbar-box"
@@ -129,6 +145,45 @@ export const Right = () => {
                 }}
               />
             </Show>
+            <Show when={(isFolder() || isFile()) && !isShare()}>
+              <Show
+                when={unlockedFolderOf(pathname())}
+                fallback={
+                  <RightIcon
+                    as={BiSolidLock}
+                    tips="e2ee_unlock"
+                    onClick={() => {
+                      bus.emit("tool", "e2ee_unlock")
+                    }}
+                  />
+                }
+              >
+                <RightIcon
+                  as={BiSolidLockOpen}
+                  tips="e2ee_lock"
+                  onClick={() => {
+                    lockFolder(pathname())
+                    notify.info(t("home.toolbar.e2ee_locked"))
+                  }}
+                />
+              </Show>
+            </Show>
+            <Show when={isFolder()}>
+              <RightIcon
+                as={TbArrowsSort}
+                tips="sort"
+                onClick={() => {
+                  bus.emit("tool", "sort")
+                }}
+              />
+              <RightIcon
+                as={TbFilter}
+                tips="filter"
+                onClick={() => {
+                  setFilterOpen(!filterOpen())
+                }}
+              />
+            </Show>
             <Show when={isTocVisible()}>
               <RightIcon
                 as={BiSolidBookContent}
@@ -0,0 +1,91 @@
+import { FormControl, FormLabel, HStack, VStack } from "@hope-ui/solid"
+import { SelectWrapper } from "~/components"
+import { useT } from "~/hooks"
+import { FolderPlacement, OrderBy, setSortOrder, sortOrder } from "~/store"
+import { ModalWrapper } from "./ModalWrapper"
+
+const ORDER_BYS: OrderBy[] = [
+  "name",
+  "size",
+  "modified",
+  "created",
+  "extension",
+  "type",
+]
+const FOLDERS: FolderPlacement[] = ["first", "last", "mixed"]
+
+const SortForm = () => {
+  const t = useT()
+  const order = () => sortOrder() ?? { orderBy: "name" as OrderBy }
+  const directions = () => [
+    { value: "asc", label: t("home.sort.asc") },
+    { value: "desc", label: t("home.sort.desc") },
+  ]
+  return (
+    <VStack spacing="$3" alignItems="start" pb="$4">
+      <FormControl>
+        <FormLabel>{t("home.sort.order_by")}</FormLabel>
+        <HStack spacing="$2">
+          <SelectWrapper
+            value={order().orderBy}
+            onChange={(orderBy) => setSortOrder({ orderBy })}
+            options={ORDER_BYS.map((orderBy) => ({
+              value: orderBy,
+              label: t(`home.sort.${orderBy}`),
+            }))}
+          />
+          <SelectWrapper
+            value={order().reverse ? "desc" : "asc"}
+            onChange={(direction) =>
+              setSortOrder({ reverse: direction === "desc" })
+            }
+            options={directions()}
+          />
+        </HStack>
+      </FormControl>
+      <FormControl>
+        <FormLabel>{t("home.sort.then_by")}</FormLabel>
+        <HStack spacing="$2">
+          <SelectWrapper<OrderBy | "">
+            value={order().thenBy ?? ""}
+            onChange={(thenBy) => setSortOrder({ thenBy: thenBy || undefined })}
+            options={[
+              { value: "", label: t("home.sort.none") },
+              ...ORDER_BYS.map((orderBy) => ({
+                value: orderBy,
+                label: t(`home.sort.${orderBy}`),
+              })),
+            ]}
+          />
+          <SelectWrapper
+            value={order().thenReverse ? "desc" : "asc"}
+            onChange={(direction) =>
+              setSortOrder({ thenReverse: direction === "desc" })
+            }
+            options={directions()}
+          />
+        </HStack>
+      </FormControl>
+      <FormControl>
+        <FormLabel>{t("home.sort.folders")}</FormLabel>
+        <SelectWrapper
+          value={order().folders ?? "mixed"}
+          onChange={(folders) => setSortOrder({ folders })}
+          options={FOLDERS.map((folders) => ({
+            value: folders,
+            label: t(`home.sort.folders_${folders}`),
+          }))}
+        />
+      </FormControl>
+    </VStack>
+  )
+}
+
+// Sort order of the current folder, remembered for it
+export const Sort = () => {
+  return (
+    <ModalWrapper name="sort" title="home.toolbar.sort">
+      <SortForm />
+    </ModalWrapper>
+  )
+}
@@ -2,21 +2,31 @@ import { Portal } from "solid-js/web"
 import { Center } from "./Center"
 import { Right } from "./Right"
 import { Copy, Move } from "./CopyMove"
+import { DragMove } from "./DragMove"
 import { Delete } from "./Delete"
 import { Rename } from "./Rename"
 import { NewFile } from "./NewFile"
 import { Mkdir } from "./Mkdir"
+import { Unlock } from "./Unlock"
 import { RecursiveMove } from "./RecursiveMove"
 import { RemoveEmptyDirectory } from "./RemoveEmptyDirectory"
 import { BatchRename } from "./BatchRename"
 import { OfflineDownload } from "./OfflineDownload"
 import { PackageDownloadModal } from "./Download"
-import { lazy } from "solid-js"
+import { lazy, onMount } from "solid-js"
 import { ModalWrapper } from "./ModalWrapper"
 import { LocalSettings } from "./LocalSettings"
+import { Sort } from "./Sort"
 import { BackTop } from "./BackTop"
 import { Decompress } from "./Decompress"
 import { Share } from "./Share"
+import { Button, HStack, Text } from "@hope-ui/solid"
+import { useRouter, useT } from "~/hooks"
+import { userCan } from "~/store"
+import { bus, notify } from "~/utils"
+import { listUnfinishedUploads } from "../uploads/manager"
+import { UploadTray } from "../uploads/UploadTray"
+import { usePasteUpload } from "../uploads/paste"
 
 const Upload = lazy(() => import("../uploads/Upload"))
 
@@ -25,11 +35,13 @@ export const Modal = () => {
     <>
       <Copy />
       <Move />
+      <DragMove />
       <Rename />
       <Delete />
       <Decompress />
       <NewFile />
       <Mkdir />
+      <Unlock />
       <Share />
       <RecursiveMove />
       <RemoveEmptyDirectory />
@@ -39,18 +51,48 @@ export const Modal = () => {
       <ModalWrapper name="upload" title="home.toolbar.upload">
         <Upload />
       </ModalWrapper>
+      <Sort />
       <LocalSettings />
     </>
   )
 }
 
+// Remind the user of uploads a previous session left unfinished
+const checkUnfinishedUploads = async () => {
+  const t = useT()
+  const unfinished = await listUnfinishedUploads()
+  if (unfinished.length === 0) return
+  notify.render(
+    <HStack spacing="$2">
+      <Text>
+        {t("home.upload.unfinished_uploads", { count: unfinished.length })}
+      </Text>
+      <Button
+        size="sm"
+        colorScheme="accent"
+        onClick={() => bus.emit("tool", "upload")}
+      >
+        {t("home.upload.resume_unfinished")}
+      </Button>
+    </HStack>,
+  )
+}
+
 export const Toolbar = () => {
+  const { isShare } = useRouter()
+  usePasteUpload(isShare)
+  onMount(() => {
+    if (userCan("write")) {
+      checkUnfinishedUploads()
+    }
+  })
   return (
     <Portal>
       <Right />
       <Center />
       <Modal />
       <BackTop />
+      <UploadTray />
     </Portal>
   )
 }
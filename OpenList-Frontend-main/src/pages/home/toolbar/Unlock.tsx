@@ -0,0 +1,81 @@
+import { createDisclosure } from "@hope-ui/solid"
+import { createSignal, onCleanup } from "solid-js"
+import { ModalInput } from "~/components"
+import { useLink, useRouter, useT } from "~/hooks"
+import { objStore, State, unlockFolder } from "~/store"
+import {
+  bus,
+  E2EE_HEADER_SIZE,
+  e2eeKeyOf,
+  fetchE2EEHeader,
+  notify,
+  pathDir,
+  WrongPassphraseError,
+} from "~/utils"
+
+// Encrypted files of the folder checked against the passphrase
+const CHECKED_FILES = 5
+
+// Unlock the current folder, or the folder of the opened file, for
+// end-to-end encryption: uploads into it are encrypted and its encrypted
+// files are decrypted on opening
+export const Unlock = () => {
+  const t = useT()
+  const { isOpen, onOpen, onClose } = createDisclosure()
+  const [loading, setLoading] = createSignal(false)
+  const { pathname } = useRouter()
+  const { proxyLink } = useLink()
+  const isFile = () => objStore.state === State.File
+  const folder = () => (isFile() ? pathDir(pathname()) : pathname())
+  const handler = (name: string) => {
+    if (name === "e2ee_unlock") {
+      onOpen()
+    }
+  }
+  bus.on("tool", handler)
+  onCleanup(() => {
+    bus.off("tool", handler)
+  })
+  // A passphrase that doesn't open the files already in the folder is
+  // rejected, returns the salt of those files
+  const check = async (passphrase: string) => {
+    const files = (isFile() ? [objStore.obj] : objStore.objs)
+      .filter((obj) => !obj.is_dir && obj.size >= E2EE_HEADER_SIZE)
+      .slice(0, CHECKED_FILES)
+    for (const obj of files) {
+      const header = await fetchE2EEHeader(proxyLink(obj, true)).catch(
+        () => undefined,
+      )
+      if (!header) continue
+      await e2eeKeyOf(passphrase, header)
+      return header.salt
+    }
+  }
+  return (
+    <ModalInput
+      title="home.toolbar.e2ee_passphrase"
+      type="password"
+      tips={t("home.toolbar.e2ee_passphrase_tips")}
+      opened={isOpen()}
+      onClose={onClose}
+      loading={loading()}
+      onSubmit={async (passphrase) => {
+        setLoading(true)
+        try {
+          const salt = await check(passphrase)
+          unlockFolder(folder(), passphrase, salt)
+          notify.success(t("home.toolbar.e2ee_unlocked"))
+          onClose()
+        } catch (e: any) {
+          notify.error(
+            e instanceof WrongPassphraseError
+              ? t("home.toolbar.e2ee_wrong_passphrase")
+              : e.message,
+          )
+        } finally {
+          setLoading(false)
+        }
+      }}
+    />
+  )
+}
@@ -0,0 +1,152 @@
+import { Button, HStack, Text, VStack } from "@hope-ui/solid"
+import { createMemo, Show } from "solid-js"
+import { useT, useUtil } from "~/hooks"
+import { getMainColor } from "~/store"
+import { formatDuration, getFileSize } from "~/utils"
+import { batch, batchReport, BatchReport, uploadSummary } from "./manager"
+
+const SPARKLINE_WIDTH = 120
+const SPARKLINE_HEIGHT = 24
+
+// Throughput of the last minute, scaled to its own peak
+const Sparkline = (props: { samples: number[] }) => {
+  const points = createMemo(() => {
+    const samples = props.samples
+    const peak = Math.max(...samples, 1)
+    const step = SPARKLINE_WIDTH / Math.max(samples.length - 1, 1)
+    return samples
+      .map(
+        (speed, i) =>
+          `${(i * step).toFixed(1)},${(
+            SPARKLINE_HEIGHT -
+            (speed / peak) * (SPARKLINE_HEIGHT - 2) -
+            1
+          ).toFixed(1)}`,
+      )
+      .join(" ")
+  })
+  return (
+    <svg
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+    >
+      <polyline
+        points={points()}
+        fill="none"
+        stroke={getMainColor()}
+        stroke-width="1.5"
+      />
+    </svg>
+  )
+}
+
+const reportText = (report: BatchReport) =>
+  [
+    `Upload finished ${report.finished ?? ""}`,
+    `Succeeded: ${report.succeeded}`,
+    `Failed: ${report.failed}`,
+    `Canceled: ${report.canceled}`,
+    `Skipped: ${report.skipped} (${getFileSize(report.skipped_bytes)})`,
+    `Uploaded: ${getFileSize(report.bytes)}`,
+    `Elapsed: ${formatDuration(report.elapsed)}`,
+    "",
+    ...report.files
+      .filter((file) => file.status !== "success")
+      .map(
+        (file) =>
+          `${file.status}\t${file.path}${file.msg ? `\t${file.msg}` : ""}`,
+      ),
+  ]
+    .join("\n")
+    .trim()
+
+const exportReport = (report: BatchReport) => {
+  const file = new Blob([JSON.stringify(report, null, 2)], {
+    type: "application/json",
+  })
+  const url = URL.createObjectURL(file)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = `upload-report-${Date.now()}.json`
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+// Bytes, throughput and ETA of the running batch, and its outcome once
+// every upload in it is finished
+export const BatchSummary = () => {
+  const t = useT()
+  const { copy } = useUtil()
+  const summary = createMemo(uploadSummary)
+  const report = createMemo(batchReport)
+  return (
+    <Show when={batch.started}>
+      <VStack
+        w="$full"
+        spacing="$1"
+        p="$2"
+        rounded="$lg"
+        border="1px solid $neutral7"
+        alignItems="start"
+      >
+        <Show
+          when={batch.finished}
+          fallback={
+            <HStack w="$full" spacing="$4" justifyContent="space-between">
+              <VStack spacing="$1" alignItems="start">
+                <Text size="sm">
+                  {getFileSize(summary().done)} / {getFileSize(summary().total)}
+                </Text>
+                <Text size="sm" color="$neutral11">
+                  {t("home.upload.throughput", {
+                    current: getFileSize(summary().speed),
+                    average: getFileSize(summary().average),
+                  })}
+                  <Show when={summary().eta !== undefined}>
+                    {" · "}
+                    {t("home.upload.eta", {
+                      eta: formatDuration(summary().eta!),
+                    })}
+                  </Show>
+                </Text>
+              </VStack>
+              <Sparkline samples={batch.samples} />
+            </HStack>
+          }
+        >
+          <Text>
+            {t("home.upload.batch_summary", {
+              succeeded: report().succeeded,
+              failed: report().failed,
+              skipped: report().skipped,
+            })}
+          </Text>
+          <Text size="sm" color="$neutral11">
+            {t("home.upload.batch_totals", {
+              size: getFileSize(report().bytes),
+              elapsed: formatDuration(report().elapsed),
+              average: getFileSize(summary().average),
+            })}
+          </Text>
+          <HStack w="$full" spacing="$2" justifyContent="end">
+            <Button
+              size="xs"
+              variant="subtle"
+              onClick={() => copy(reportText(report()))}
+            >
+              {t("home.upload.copy_summary")}
+            </Button>
+            <Button
+              size="xs"
+              variant="subtle"
+              onClick={() => exportReport(report())}
+            >
+              {t("home.upload.export_summary")}
+            </Button>
+          </HStack>
+        </Show>
+      </VStack>
+    </Show>
+  )
+}
@@ -0,0 +1,119 @@
+import { VStack, HStack, Text, Badge, Button, Checkbox } from "@hope-ui/solid"
+import { createSignal, For, Show } from "solid-js"
+import { createStore } from "solid-js/store"
+import { useT } from "~/hooks"
+import { getFileSize } from "~/utils"
+import { SelectWrapper } from "~/components"
+import { Conflict, ConflictPolicy, isIdentical } from "./conflict"
+import { ConflictAction, QueuedUpload } from "./types"
+
+const actions: ConflictAction[] = ["skip", "overwrite", "rename"]
+
+// Lets the user decide per file what happens to names that already exist
+export const ConflictPrompt = (props: {
+  conflicts: Conflict[]
+  onConfirm: (
+    actions: Map<QueuedUpload, ConflictAction>,
+    policy?: ConflictPolicy,
+  ) => void
+  onCancel: () => void
+}) => {
+  const t = useT()
+  const [decisions, setDecisions] = createStore<ConflictAction[]>(
+    props.conflicts.map(() => "skip"),
+  )
+  const [skipIdentical, setSkipIdentical] = createSignal(true)
+  // set by apply to all, a decision per file takes it back
+  const [allAction, setAllAction] = createSignal<ConflictAction>()
+  const identical = (i: number) =>
+    skipIdentical() && isIdentical(props.conflicts[i])
+  const confirm = () => {
+    const res = new Map<QueuedUpload, ConflictAction>()
+    props.conflicts.forEach((conflict, i) => {
+      res.set(conflict.item, identical(i) ? "skip" : decisions[i])
+    })
+    const action = allAction()
+    props.onConfirm(res, action && { action, skipIdentical: skipIdentical() })
+  }
+  return (
+    <VStack
+      w="$full"
+      spacing="$2"
+      p="$2"
+      rounded="$lg"
+      border="1px solid $warning7"
+      alignItems="start"
+    >
+      <Text>
+        {t("home.upload.conflicts", { count: props.conflicts.length })}
+      </Text>
+      <HStack spacing="$2" flexWrap="wrap">
+        <Text size="sm">{t("home.upload.apply_to_all")}</Text>
+        <For each={actions}>
+          {(action) => (
+            <Button
+              size="xs"
+              variant="subtle"
+              onClick={() => {
+                setDecisions(props.conflicts.map(() => action))
+                setAllAction(action)
+              }}
+            >
+              {t(`home.upload.conflict_${action}`)}
+            </Button>
+          )}
+        </For>
+      </HStack>
+      <Checkbox
+        checked={skipIdentical()}
+        onChange={() => setSkipIdentical(!skipIdentical())}
+      >
+        {t("home.upload.skip_identical")}
+      </Checkbox>
+      <VStack w="$full" spacing="$1" maxH="40vh" overflowY="auto">
+        <For each={props.conflicts}>
+          {(conflict, i) => (
+            <HStack w="$full" spacing="$2" justifyContent="space-between">
+              <Text css={{ wordBreak: "break-all" }}>{conflict.item.path}</Text>
+              <HStack spacing="$2" flexShrink={0}>
+                <Text size="sm" color="$neutral11">
+                  {getFileSize(conflict.item.file.size)} /{" "}
+                  {getFileSize(conflict.remote.size)}
+                </Text>
+                <Show
+                  when={!identical(i())}
+                  fallback={
+                    <Badge colorScheme="success">
+                      {t("home.upload.identical")}
+                    </Badge>
+                  }
+                >
+                  <SelectWrapper
+                    size="xs"
+                    value={decisions[i()]}
+                    onChange={(action) => {
+                      setDecisions(i(), action)
+                      setAllAction(undefined)
+                    }}
+                    options={actions.map((action) => ({
+                      value: action,
+                      label: t(`home.upload.conflict_${action}`),
+                    }))}
+                  />
+                </Show>
+              </HStack>
+            </HStack>
+          )}
+        </For>
+      </VStack>
+      <HStack w="$full" spacing="$2" justifyContent="end">
+        <Button size="sm" colorScheme="neutral" onClick={props.onCancel}>
+          {t("global.cancel")}
+        </Button>
+        <Button size="sm" colorScheme="accent" onClick={confirm}>
+          {t("global.confirm")}
+        </Button>
+      </HStack>
+    </VStack>
+  )
+}
@@ -0,0 +1,105 @@
+import { Checkbox, HStack, Input, Stack, Text, VStack } from "@hope-ui/solid"
+import { Show } from "solid-js"
+import { SelectWrapper } from "~/components"
+import { useT } from "~/hooks"
+import { setUploadConfig, uploadConfig } from "~/store"
+
+const FORMATS = ["original", "jpeg", "webp"] as const
+
+// Options of the image conversion before upload, see image.ts
+export const ImageOptions = () => {
+  const t = useT()
+  const image = () => uploadConfig.image
+  const toggle = (
+    key: "enabled" | "heicToJpeg" | "keepExif" | "keepOriginal",
+  ) => setUploadConfig("image", key, (value) => !value)
+  return (
+    <VStack spacing="$2" alignItems="center">
+      <Checkbox checked={image().enabled} onChange={() => toggle("enabled")}>
+        {t("home.upload.convert_images")}
+      </Checkbox>
+      <Show when={image().enabled}>
+        <Stack
+          spacing={{ "@initial": "$2", "@md": "$4" }}
+          direction={{ "@initial": "column", "@md": "row" }}
+          alignItems="center"
+        >
+          <HStack spacing="$2">
+            <Text size="sm">{t("home.upload.image_max_edge")}</Text>
+            <Input
+              size="sm"
+              w="$24"
+              type="number"
+              min={0}
+              value={image().maxEdge}
+              onInput={(e) =>
+                setUploadConfig(
+                  "image",
+                  "maxEdge",
+                  Math.max(0, parseInt(e.currentTarget.value) || 0),
+                )
+              }
+            />
+          </HStack>
+          <HStack spacing="$2">
+            <Text size="sm">{t("home.upload.image_format")}</Text>
+            <SelectWrapper
+              size="sm"
+              w="$32"
+              value={image().format}
+              onChange={(format) => setUploadConfig("image", "format", format)}
+              options={FORMATS.map((format) => ({
+                value: format,
+                label: t(`home.upload.image_format_${format}`),
+              }))}
+            />
+          </HStack>
+          <HStack spacing="$2">
+            <Text size="sm">{t("home.upload.image_quality")}</Text>
+            <Input
+              size="sm"
+              w="$20"
+              type="number"
+              min={1}
+              max={100}
+              value={image().quality}
+              onInput={(e) =>
+                setUploadConfig(
+                  "image",
+                  "quality",
+                  Math.min(
+                    100,
+                    Math.max(1, parseInt(e.currentTarget.value) || 85),
+                  ),
+                )
+              }
+            />
+          </HStack>
+        </Stack>
+        <Stack
+          spacing={{ "@initial": "$2", "@md": "$4" }}
+          direction={{ "@initial": "column", "@md": "row" }}
+        >
+          <Checkbox
+            checked={image().heicToJpeg}
+            onChange={() => toggle("heicToJpeg")}
+          >
+            {t("home.upload.heic_to_jpeg")}
+          </Checkbox>
+          <Checkbox
+            checked={image().keepExif}
+            onChange={() => toggle("keepExif")}
+          >
+            {t("home.upload.keep_exif")}
+          </Checkbox>
+          <Checkbox
+            checked={image().keepOriginal}
+            onChange={() => toggle("keepOriginal")}
+          >
+            {t("home.upload.keep_original")}
+          </Checkbox>
+        </Stack>
+      </Show>
+    </VStack>
+  )
+}
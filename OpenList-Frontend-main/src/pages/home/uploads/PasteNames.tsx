@@ -0,0 +1,73 @@
+import { VStack, HStack, Text, Button, Input, Image } from "@hope-ui/solid"
+import { For, onCleanup } from "solid-js"
+import { createStore } from "solid-js/store"
+import { useT } from "~/hooks"
+import { notify, validateFilename } from "~/utils"
+import { pastedImageName } from "./paste"
+
+// Lets the user name pasted images the browser gave no real name
+export const PasteNamePrompt = (props: {
+  files: File[]
+  onConfirm: (names: string[]) => void
+  onCancel: () => void
+}) => {
+  const t = useT()
+  const [names, setNames] = createStore(
+    props.files.map((file, i) => pastedImageName(file, i)),
+  )
+  const previews = props.files.map((file) => URL.createObjectURL(file))
+  onCleanup(() => previews.forEach((url) => URL.revokeObjectURL(url)))
+  const confirm = () => {
+    for (const name of names) {
+      const validation = validateFilename(name)
+      if (!validation.valid) {
+        notify.warning(t(`global.${validation.error}`))
+        return
+      }
+    }
+    props.onConfirm([...names])
+  }
+  return (
+    <VStack
+      w="$full"
+      spacing="$2"
+      p="$2"
+      rounded="$lg"
+      border="1px solid $info7"
+      alignItems="start"
+    >
+      <Text>{t("home.upload.name_pasted", { count: props.files.length })}</Text>
+      <VStack w="$full" spacing="$1" maxH="40vh" overflowY="auto">
+        <For each={props.files}>
+          {(_, i) => (
+            <HStack w="$full" spacing="$2">
+              <Image
+                src={previews[i()]}
+                boxSize="$10"
+                objectFit="cover"
+                rounded="$md"
+                flexShrink={0}
+              />
+              <Input
+                size="sm"
+                value={names[i()]}
+                onInput={(e) => setNames(i(), e.currentTarget.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") confirm()
+                }}
+              />
+            </HStack>
+          )}
+        </For>
+      </VStack>
+      <HStack w="$full" spacing="$2" justifyContent="end">
+        <Button size="sm" colorScheme="neutral" onClick={props.onCancel}>
+          {t("global.cancel")}
+        </Button>
+        <Button size="sm" colorScheme="accent" onClick={confirm}>
+          {t("global.confirm")}
+        </Button>
+      </HStack>
+    </VStack>
+  )
+}
@@ -13,26 +13,111 @@ import {
   Box,
   Stack,
 } from "@hope-ui/solid"
-import { createSignal, For, Show } from "solid-js"
-import { usePath, useRouter, useT } from "~/hooks"
-import { getMainColor, uploadConfig, setUploadConfig } from "~/store"
+import { createEffect, createSignal, onMount, Show } from "solid-js"
+import { useRouter, useT } from "~/hooks"
+import {
+  getMainColor,
+  uploadConfig,
+  setUploadConfig,
+  unlockedFolderOf,
+} from "~/store"
 import {
   RiDocumentFolderUploadFill,
   RiDocumentFileUploadFill,
 } from "solid-icons/ri"
-import { getFileSize, notify, pathJoin } from "~/utils"
-import { asyncPool } from "~/utils/async_pool"
-import { createStore } from "solid-js/store"
-import { UploadFileProps, StatusBadge } from "./types"
-import { File2Upload, traverseFileTree } from "./util"
-import { SelectWrapper } from "~/components"
+import { FaSolidPause, FaSolidPlay, FaSolidXmark } from "solid-icons/fa"
+import { formatDuration, getFileSize, notify, pathJoin } from "~/utils"
+import {
+  UploadFileProps,
+  Found,
+  PickedFile,
+  StatusBadge,
+  VerifyBadge,
+  RapidBadge,
+  QueuedUpload,
+  ConflictAction,
+} from "./types"
+import {
+  actionsByPolicy,
+  Conflict,
+  ConflictPolicy,
+  findConflicts,
+  resolveConflicts,
+} from "./conflict"
+import { ConflictPrompt } from "./Conflicts"
+import { folderTree, inBatches, walkDirectoryHandle, walkEntry } from "./util"
+import { createUploadFilter } from "./filter"
+import { SelectWrapper, VirtualList } from "~/components"
 import { getUploads } from "./uploads"
+import {
+  addUploads,
+  allDone,
+  cancelUpload,
+  clearFinished,
+  listUnfinishedUploads,
+  pathsWith,
+  pauseUpload,
+  resumeUploads,
+  setUploaderName,
+  startUploads,
+  uploaderName,
+  uploadStore,
+} from "./manager"
+import {
+  clearPersistedUploads,
+  PersistedUpload,
+  rememberHandle,
+  removePersistedUpload,
+  reopenPersistedFile,
+} from "./persist"
+import {
+  isUnnamedImage,
+  pastedFiles,
+  renameFile,
+  setPastedFiles,
+} from "./paste"
+import { PasteNamePrompt } from "./PasteNames"
+import { BatchSummary } from "./BatchSummary"
+import { planImageUploads } from "./image"
+import { ImageOptions } from "./ImageOptions"
 
-const UploadFile = (props: UploadFileProps) => {
+// Files handed to the upload manager at a time while a folder is read
+const ENUMERATION_BATCH = 500
+
+// What the conflict prompt decided for one upload, kept across the batches
+// it is read in
+interface ConflictSession {
+  policy?: ConflictPolicy
+  taken: Map<string, Set<string>>
+}
+
+const pickedFile = (file: File): PickedFile => ({
+  file,
+  path: file.webkitRelativePath || file.name,
+})
+
+// Rows have a fixed height for the virtualized list, long paths and
+// messages are cut off and shown in full on hover
+const ROW_HEIGHT = 128
+const oneLine = {
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  whiteSpace: "nowrap",
+  minHeight: "1.5em",
+}
+
+const UploadFile = (
+  props: UploadFileProps & {
+    onPause: () => void
+    onResume: () => void
+    onCancel: () => void
+  },
+) => {
   const t = useT()
   return (
     <VStack
       w="$full"
+      h="$full"
       spacing="$1"
       rounded="$lg"
       border="1px solid $neutral7"
@@ -42,11 +127,7 @@ const UploadFile = (props: UploadFileProps) => {
         border: `1px solid ${getMainColor()}`,
       }}
     >
-      <Text
-        css={{
-          wordBreak: "break-all",
-        }}
-      >
+      <Text w="$full" title={props.path} css={oneLine}>
         {props.path}
       </Text>
       <HStack spacing="$2" w="$full" justifyContent="space-between">
@@ -54,9 +135,77 @@ const UploadFile = (props: UploadFileProps) => {
           <Badge colorScheme={StatusBadge[props.status]}>
             {t(`home.upload.${props.status}`)}
           </Badge>
+          <Show when={props.verify}>
+            <Badge colorScheme={VerifyBadge[props.verify!]}>
+              {t(`home.upload.${props.verify}`)}
+            </Badge>
+          </Show>
+          <Show when={props.method}>
+            <Badge variant="outline">{props.method}</Badge>
+          </Show>
+          <Show when={props.rapid}>
+            <Badge colorScheme={RapidBadge[props.rapid!]}>
+              {t(`home.upload.rapid_${props.rapid}`)}
+            </Badge>
+          </Show>
           <Text>{getFileSize(props.speed)}/s</Text>
+          <Show when={props.status === "uploading" && props.speed > 0}>
+            <Text color="$neutral11">
+              {t("home.upload.eta", {
+                eta: formatDuration(
+                  (props.size * (1 - props.progress / 100)) / props.speed,
+                ),
+              })}
+            </Text>
+          </Show>
+        </HStack>
+        <HStack spacing="$2">
+          <Text color="$neutral11">
+            <Show
+              when={
+                props.original_size !== undefined &&
+                props.original_size !== props.size
+              }
+            >
+              {getFileSize(props.original_size!)} →{" "}
+            </Show>
+            {getFileSize(props.size)}
+          </Text>
+          <Show when={!props.folder}>
+            <Show
+              when={["pending", "hashing", "processing", "uploading"].includes(
+                props.status,
+              )}
+            >
+              <IconButton
+                size="xs"
+                variant="ghost"
+                aria-label={t("home.upload.pause")}
+                icon={<FaSolidPause />}
+                onClick={props.onPause}
+              />
+            </Show>
+            <Show when={["paused", "error"].includes(props.status)}>
+              <IconButton
+                size="xs"
+                variant="ghost"
+                aria-label={t("home.upload.resume")}
+                icon={<FaSolidPlay />}
+                onClick={props.onResume}
+              />
+            </Show>
+            <Show when={!["success", "canceled"].includes(props.status)}>
+              <IconButton
+                size="xs"
+                variant="ghost"
+                colorScheme="danger"
+                aria-label={t("home.upload.cancel")}
+                icon={<FaSolidXmark />}
+                onClick={props.onCancel}
+              />
+            </Show>
+          </Show>
         </HStack>
-        <Text color="$neutral11">{getFileSize(props.size)}</Text>
       </HStack>
       <Progress
         w="$full"
@@ -68,111 +217,422 @@ const UploadFile = (props: UploadFileProps) => {
         <ProgressIndicator color={getMainColor()} rounded="$md" />
         {/* <ProgressLabel /> */}
       </Progress>
-      <Text color="$danger10">{props.msg}</Text>
+      <Text w="$full" color="$danger10" title={props.msg} css={oneLine}>
+        {props.msg}
+      </Text>
     </VStack>
   )
 }
 
+const ResumePrompt = (props: {
+  message: string
+  action: string
+  onAction: () => void
+  onDiscard: () => void
+}) => {
+  const t = useT()
+  return (
+    <HStack
+      w="$full"
+      spacing="$2"
+      p="$2"
+      rounded="$lg"
+      border="1px solid $warning7"
+      justifyContent="space-between"
+      flexWrap="wrap"
+    >
+      <Text>{props.message}</Text>
+      <HStack spacing="$2">
+        <Button size="sm" colorScheme="accent" onClick={props.onAction}>
+          {props.action}
+        </Button>
+        <Button size="sm" colorScheme="neutral" onClick={props.onDiscard}>
+          {t("home.upload.discard")}
+        </Button>
+      </HStack>
+    </HStack>
+  )
+}
+
 const Upload = () => {
   const t = useT()
   const { pathname } = useRouter()
-  const { refresh } = usePath()
   const [drag, setDrag] = createSignal(false)
-  const [uploading, setUploading] = createSignal(false)
-  const [uploadFiles, setUploadFiles] = createStore<{
-    uploads: UploadFileProps[]
-  }>({
-    uploads: [],
-  })
-  const allDone = () => {
-    return uploadFiles.uploads.every(({ status }) =>
-      ["success", "error"].includes(status),
-    )
-  }
+  // uploads keep running when the dialog is closed, show them on reopening
+  const [uploading, setUploading] = createSignal(uploadStore.uploads.length > 0)
   let fileInput: HTMLInputElement
   let folderInput: HTMLInputElement
-  const handleAddFiles = async (files: File[]) => {
-    if (files.length === 0) return
-    setUploading(true)
-    for (const file of files) {
-      const upload = File2Upload(file)
-      setUploadFiles("uploads", (uploads) => [...uploads, upload])
-    }
-    for await (const ms of asyncPool(3, files, handleFile)) {
-      console.log(ms)
-    }
-    refresh()
-  }
-  const setUpload = (path: string, key: keyof UploadFileProps, value: any) => {
-    setUploadFiles("uploads", (upload) => upload.path === path, key, value)
-  }
+  let resumeInput: HTMLInputElement
 
   // All upload methods are available by default
   const uploaders = getUploads()
-  const [curUploader, setCurUploader] = createSignal(uploaders[0])
-  const handleFile = async (file: File) => {
-    const path = file.webkitRelativePath ? file.webkitRelativePath : file.name
-    setUpload(path, "status", "uploading")
-    const uploadPath = pathJoin(pathname(), path)
-    try {
-      const err = await curUploader()
-        .upload(
-          uploadPath,
-          file,
-          (key, value) => {
-            setUpload(path, key, value)
+
+  // Names taken in the target folders are resolved before anything is sent
+  const [pendingConflicts, setPendingConflicts] = createSignal<{
+    conflicts: Conflict[]
+    resolve: (
+      actions?: Map<QueuedUpload, ConflictAction>,
+      policy?: ConflictPolicy,
+    ) => void
+  }>()
+  const checkConflicts = async (
+    queued: QueuedUpload[],
+    session: ConflictSession,
+  ) => {
+    const { conflicts, targets } = await findConflicts(queued)
+    let actions: Map<QueuedUpload, ConflictAction> | undefined
+    if (conflicts.length === 0) {
+      actions = new Map()
+    } else if (session.policy) {
+      // applied to all in an earlier batch, not asked again
+      actions = actionsByPolicy(conflicts, session.policy)
+    } else {
+      actions = await new Promise((resolve) =>
+        setPendingConflicts({
+          conflicts,
+          resolve: (actions, policy) => {
+            session.policy = policy
+            resolve(actions)
           },
-          uploadConfig.asTask,
-          uploadConfig.overwrite,
-          uploadConfig.rapid,
+        }),
+      )
+      setPendingConflicts(undefined)
+    }
+    // the user canceled the whole batch
+    if (!actions) return
+    return resolveConflicts(queued, actions, targets, session.taken)
+  }
+  // Files are handed to the manager in batches as they are found, so the
+  // uploads of a large folder start while the rest is still being read
+  const addFound = async (
+    found: AsyncIterable<Found> | Iterable<Found>,
+    filter = createUploadFilter(),
+  ) => {
+    // the target stays the same when the user browses on meanwhile
+    const base = pathname()
+    const encrypt = uploadConfig.encrypt && !!unlockedFolderOf(base)
+    // folders of earlier batches already exist
+    const created = new Set<string>()
+    // skipped files already reported to the manager
+    const counted = { files: 0, bytes: 0 }
+    const session: ConflictSession = { taken: new Map() }
+    let seen = 0
+    for await (const batch of inBatches(found, ENUMERATION_BATCH)) {
+      seen += batch.files.length + batch.dirs.length
+      const added = batch.files
+        .filter(({ file, path }) => !filter.skipFile(path, file.size))
+        .map(
+          ({ file, path }): QueuedUpload => ({
+            file,
+            path,
+            uploadPath: pathJoin(base, path),
+            uploader: uploaderName(),
+            asTask: uploadConfig.asTask,
+            overwrite: uploadConfig.overwrite,
+            // ciphertext is never the same twice
+            rapid: uploadConfig.rapid && !encrypt,
+            encrypt,
+          }),
         )
-        .catch((err) => err)
-      if (!err) {
-        setUpload(path, "status", "success")
-        setUpload(path, "progress", 100)
+        .flatMap(planImageUploads)
+      const dirs = batch.dirs.filter(filter.keepFolder)
+      if (added.length === 0 && dirs.length === 0) continue
+      const queued = uploadConfig.overwrite
+        ? added
+        : await checkConflicts(added, session)
+      // canceled in the conflict prompt, the rest isn't uploaded either
+      if (!queued) break
+      // files dropped in the conflict prompt count as skipped as well
+      const kept = new Set(queued.map((item) => item.file))
+      const dropped = added.filter((item) => !kept.has(item.file))
+      // Folders of a folder upload, including the empty ones
+      const folders = folderTree(
+        queued.map((item) => item.path),
+        dirs,
+      )
+        .filter((path) => !created.has(path))
+        .map((path) => ({ path, uploadPath: pathJoin(base, path) }))
+      folders.forEach(({ path }) => created.add(path))
+      const skipped = {
+        files: filter.skipped.files - counted.files + dropped.length,
+        bytes:
+          filter.skipped.bytes -
+          counted.bytes +
+          dropped.reduce((bytes, item) => bytes + item.file.size, 0),
+      }
+      counted.files = filter.skipped.files
+      counted.bytes = filter.skipped.bytes
+      setUploading(true)
+      await addUploads(queued, folders, skipped)
+    }
+    const { skipped } = filter
+    if (skipped.files > 0 || skipped.folders > 0) {
+      notify.info(
+        t("home.upload.skipped_summary", {
+          files: skipped.files,
+          size: getFileSize(skipped.bytes),
+          folders: skipped.folders,
+        }),
+      )
+    }
+    return seen
+  }
+  const addFiles = (files: File[]) => addFound(files.map(pickedFile))
+  // Pasted images without a real name are named by the user first
+  const [pendingNames, setPendingNames] = createSignal<{
+    files: File[]
+    resolve: (names?: string[]) => void
+  }>()
+  const handlePasted = async (files: File[]) => {
+    const unnamed = files.filter(isUnnamedImage)
+    if (unnamed.length > 0) {
+      const names = await new Promise<string[] | undefined>((resolve) =>
+        setPendingNames({ files: unnamed, resolve }),
+      )
+      setPendingNames(undefined)
+      if (!names) return
+      files = files.map((file) => {
+        const i = unnamed.indexOf(file)
+        return i === -1 ? file : renameFile(file, names[i])
+      })
+    }
+    addFiles(files)
+  }
+  // Also picks up files pasted while the dialog was closed
+  createEffect(() => {
+    const files = pastedFiles()
+    if (files.length === 0) return
+    setPastedFiles([])
+    handlePasted(files)
+  })
+  // Uploads left unfinished by a previous session
+  const [unfinished, setUnfinished] = createSignal<PersistedUpload[]>([])
+  onMount(async () => {
+    setUnfinished(await listUnfinishedUploads())
+  })
+  const toQueued = (upload: PersistedUpload, file: File): QueuedUpload => ({
+    file,
+    path: upload.path,
+    uploadPath: upload.upload_path,
+    uploader: upload.uploader,
+    asTask: upload.as_task,
+    overwrite: upload.overwrite,
+    rapid: upload.rapid,
+    transform: upload.transform,
+    encrypt: upload.encrypt,
+  })
+  // Files without a usable handle have to be picked again by the user
+  const [missing, setMissing] = createSignal<PersistedUpload[]>([])
+  const resumeUnfinished = async () => {
+    const queued: QueuedUpload[] = []
+    const notReopened: PersistedUpload[] = []
+    for (const upload of unfinished()) {
+      const file = await reopenPersistedFile(upload)
+      if (file) {
+        queued.push(toQueued(upload, file))
       } else {
-        setUpload(path, "status", "error")
-        setUpload(path, "msg", err.message)
+        notReopened.push(upload)
+      }
+    }
+    setUnfinished([])
+    setMissing(notReopened)
+    if (queued.length > 0) setUploading(true)
+    startUploads(queued)
+  }
+  const resumeSelected = (files: File[]) => {
+    const queued: QueuedUpload[] = []
+    const rest = missing().filter((upload) => {
+      const file = files.find(
+        (f) =>
+          f.name === upload.name &&
+          f.size === upload.size &&
+          f.lastModified === upload.last_modified,
+      )
+      if (file) {
+        queued.push(toQueued(upload, file))
       }
+      return !file
+    })
+    setMissing(rest)
+    if (queued.length > 0) setUploading(true)
+    startUploads(queued)
+  }
+  const discardUnfinished = async () => {
+    setUnfinished([])
+    setMissing([])
+    await clearPersistedUploads()
+  }
+  const discardMissing = async () => {
+    const rest = missing()
+    setMissing([])
+    await Promise.all(rest.map((u) => removePersistedUpload(u.upload_path)))
+  }
+
+  // Folders are read lazily where the browser can, the folder input reads
+  // the whole folder before anything happens
+  const pickFolder = async () => {
+    if (!window.showDirectoryPicker) {
+      folderInput.click()
+      return
+    }
+    let handle: FileSystemDirectoryHandle
+    try {
+      handle = await window.showDirectoryPicker()
     } catch (e: any) {
-      console.error(e)
-      setUpload(path, "status", "error")
-      setUpload(path, "msg", e.message)
+      // closing the picker is no error
+      if (e?.name !== "AbortError") notify.error(e.message)
+      return
+    }
+    const filter = createUploadFilter()
+    addFound(walkDirectoryHandle(handle, filter), filter)
+  }
+  const pickFiles = async () => {
+    if (!window.showOpenFilePicker) {
+      fileInput.click()
+      return
+    }
+    try {
+      const handles = await window.showOpenFilePicker({ multiple: true })
+      const files = await Promise.all(
+        handles.map(async (handle) => {
+          const file = await handle.getFile()
+          rememberHandle(file, handle)
+          return file
+        }),
+      )
+      addFiles(files)
+    } catch (e: any) {
+      // closing the picker is no error
+      if (e?.name !== "AbortError") notify.error(e.message)
     }
   }
   return (
     <VStack w="$full" pb="$2" spacing="$2">
+      <Input
+        type="file"
+        multiple
+        ref={resumeInput!}
+        display="none"
+        onChange={(e) => {
+          // @ts-ignore
+          resumeSelected(Array.from(e.target.files ?? []))
+        }}
+      />
+      <Show when={pendingNames()}>
+        {(pending) => (
+          <PasteNamePrompt
+            files={pending().files}
+            onConfirm={pending().resolve}
+            onCancel={() => pending().resolve()}
+          />
+        )}
+      </Show>
+      <Show when={pendingConflicts()}>
+        {(pending) => (
+          <ConflictPrompt
+            conflicts={pending().conflicts}
+            onConfirm={pending().resolve}
+            onCancel={() => pending().resolve()}
+          />
+        )}
+      </Show>
+      <Show when={unfinished().length > 0}>
+        <ResumePrompt
+          message={t("home.upload.unfinished_uploads", {
+            count: unfinished().length,
+          })}
+          action={t("home.upload.resume_unfinished")}
+          onAction={resumeUnfinished}
+          onDiscard={discardUnfinished}
+        />
+      </Show>
+      <Show when={missing().length > 0}>
+        <ResumePrompt
+          message={t("home.upload.reselect_files_to_resume", {
+            count: missing().length,
+          })}
+          action={t("home.upload.select_files")}
+          onAction={() => resumeInput.click()}
+          onDiscard={discardMissing}
+        />
+      </Show>
       <Show
         when={!uploading()}
         fallback={
           <>
             <HStack spacing="$2">
-              <Button
-                colorScheme="accent"
-                onClick={() => {
-                  setUploadFiles("uploads", (_uploads) =>
-                    _uploads.filter(
-                      ({ status }) => !["success", "error"].includes(status),
-                    ),
-                  )
-                  console.log(uploadFiles.uploads)
-                }}
-              >
+              <Button colorScheme="accent" onClick={clearFinished}>
                 {t("home.upload.clear_done")}
               </Button>
-              <Show when={allDone()}>
+              <Show
+                when={
+                  pathsWith(["pending", "hashing", "processing", "uploading"])
+                    .length > 0
+                }
+              >
                 <Button
-                  onClick={() => {
-                    setUploading(false)
-                  }}
+                  colorScheme="warning"
+                  onClick={() =>
+                    pathsWith([
+                      "pending",
+                      "hashing",
+                      "processing",
+                      "uploading",
+                    ]).forEach(pauseUpload)
+                  }
+                >
+                  {t("home.upload.pause_all")}
+                </Button>
+              </Show>
+              <Show when={pathsWith(["paused"]).length > 0}>
+                <Button
+                  colorScheme="info"
+                  onClick={() => resumeUploads(pathsWith(["paused"]))}
+                >
+                  {t("home.upload.resume_all")}
+                </Button>
+              </Show>
+              <Show when={!allDone()}>
+                <Button
+                  colorScheme="danger"
+                  onClick={() =>
+                    pathsWith([
+                      "pending",
+                      "hashing",
+                      "processing",
+                      "uploading",
+                      "paused",
+                    ]).forEach(cancelUpload)
+                  }
                 >
-                  {t("home.upload.back")}
+                  {t("home.upload.cancel_all")}
                 </Button>
               </Show>
+              <Button
+                onClick={() => {
+                  setUploading(false)
+                }}
+              >
+                {t(allDone() ? "home.upload.back" : "home.upload.add_more")}
+              </Button>
             </HStack>
-            <For each={uploadFiles.uploads}>
-              {(upload) => <UploadFile {...upload} />}
-            </For>
+            <BatchSummary />
+            <VirtualList
+              each={uploadStore.uploads}
+              itemHeight={ROW_HEIGHT}
+              maxHeight="60vh"
+            >
+              {(upload) => (
+                <Box pb="$2" h="$full">
+                  <UploadFile
+                    {...upload}
+                    onPause={() => pauseUpload(upload.upload_path)}
+                    onResume={() => resumeUploads([upload.upload_path])}
+                    onCancel={() => cancelUpload(upload.upload_path)}
+                  />
+                </Box>
+              )}
+            </VirtualList>
           </>
         }
       >
@@ -183,7 +643,7 @@ const Upload = () => {
           display="none"
           onChange={(e) => {
             // @ts-ignore
-            handleAddFiles(Array.from(e.target.files ?? []))
+            addFiles(Array.from(e.target.files ?? []))
           }}
         />
         <Input
@@ -195,7 +655,7 @@ const Upload = () => {
           display="none"
           onChange={(e) => {
             // @ts-ignore
-            handleAddFiles(Array.from(e.target.files ?? []))
+            addFiles(Array.from(e.target.files ?? []))
           }}
         />
         <VStack
@@ -218,27 +678,39 @@ const Upload = () => {
             e.stopPropagation()
             setDrag(false)
             const res: File[] = []
+            const filter = createUploadFilter()
             const items = Array.from(e.dataTransfer?.items ?? [])
             const files = Array.from(e.dataTransfer?.files ?? [])
             let itemLength = items.length
-            const folderEntries = []
+            // Entries and handles must be requested before the first
+            // await, while the drop data is still accessible
+            const entries = items.map((item) => item.webkitGetAsEntry())
+            const handles = items.map((item) =>
+              item.getAsFileSystemHandle?.().catch(() => null),
+            )
+            const folderEntries: FileSystemEntry[] = []
             for (let i = 0; i < itemLength; i++) {
-              const item = items[i]
-              const entry = item.webkitGetAsEntry()
+              const entry = entries[i]
               if (entry?.isFile) {
                 res.push(files[i])
+                const handle = await handles[i]
+                if (handle?.kind === "file") {
+                  rememberHandle(files[i], handle as FileSystemFileHandle)
+                }
               } else if (entry?.isDirectory) {
                 folderEntries.push(entry)
               }
             }
-            for (const entry of folderEntries) {
-              const innerFiles = await traverseFileTree(entry)
-              res.push(...innerFiles)
+            async function* dropped() {
+              yield* res.map(pickedFile)
+              for (const entry of folderEntries) {
+                yield* walkEntry(entry, filter)
+              }
             }
-            if (res.length === 0) {
+            const seen = await addFound(dropped(), filter)
+            if (seen + filter.skipped.folders === 0) {
               notify.warning(t("home.upload.no_files_drag"))
             }
-            handleAddFiles(res)
           }}
         >
           <Show
@@ -250,12 +722,8 @@ const Upload = () => {
             </Heading>
             <Box w={{ "@initial": "80%", "@md": "30%" }}>
               <SelectWrapper
-                value={curUploader()?.name}
-                onChange={(name) => {
-                  setCurUploader(
-                    uploaders.find((uploader) => uploader.name === name)!,
-                  )
-                }}
+                value={uploaderName()}
+                onChange={setUploaderName}
                 options={uploaders.map((uploader) => {
                   return {
                     label: uploader.name,
@@ -272,9 +740,7 @@ const Upload = () => {
                   aria-label={t("home.upload.upload_folder")}
                   colorScheme="accent"
                   icon={<RiDocumentFolderUploadFill size="1.2em" />}
-                  onClick={() => {
-                    folderInput.click()
-                  }}
+                  onClick={pickFolder}
                 />
                 <Text fontSize="$sm" color="$neutral11" textAlign="center">
                   {t("home.upload.upload_folder")}
@@ -287,9 +753,7 @@ const Upload = () => {
                   size="xl"
                   aria-label={t("home.upload.upload_files")}
                   icon={<RiDocumentFileUploadFill size="1.2em" />}
-                  onClick={() => {
-                    fileInput.click()
-                  }}
+                  onClick={pickFiles}
                 />
                 <Text fontSize="$sm" color="$neutral11" textAlign="center">
                   {t("home.upload.upload_files")}
@@ -324,7 +788,38 @@ const Upload = () => {
               >
                 {t("home.upload.try_rapid")}
               </Checkbox>
+              <Checkbox
+                checked={uploadConfig.adaptiveChunk}
+                onChange={() => {
+                  setUploadConfig({
+                    adaptiveChunk: !uploadConfig.adaptiveChunk,
+                  })
+                }}
+              >
+                {t("home.upload.adaptive_chunk_size")}
+              </Checkbox>
+              <Checkbox
+                checked={uploadConfig.reuploadOnMismatch}
+                onChange={() => {
+                  setUploadConfig({
+                    reuploadOnMismatch: !uploadConfig.reuploadOnMismatch,
+                  })
+                }}
+              >
+                {t("home.upload.reupload_on_mismatch")}
+              </Checkbox>
+              <Show when={unlockedFolderOf(pathname())}>
+                <Checkbox
+                  checked={uploadConfig.encrypt}
+                  onChange={() => {
+                    setUploadConfig({ encrypt: !uploadConfig.encrypt })
+                  }}
+                >
+                  {t("home.upload.encrypt_in_browser")}
+                </Checkbox>
+              </Show>
             </Stack>
+            <ImageOptions />
           </Show>
         </VStack>
       </Show>
@@ -0,0 +1,169 @@
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Progress,
+  ProgressIndicator,
+  Text,
+  VStack,
+  createDisclosure,
+} from "@hope-ui/solid"
+import { createMemo, onCleanup, Show } from "solid-js"
+import { FaSolidChevronDown, FaSolidChevronUp } from "solid-icons/fa"
+import { usePath, useRouter, useT } from "~/hooks"
+import { getMainColor } from "~/store"
+import { VirtualList } from "~/components"
+import { bus, formatDuration, getFileSize } from "~/utils"
+import {
+  allDone,
+  clearFinished,
+  finished,
+  uploadStore,
+  uploadSummary,
+} from "./manager"
+import { StatusBadge } from "./types"
+
+const TRAY_ROW_HEIGHT = 24
+// Wait for more uploads to land before refreshing the open folder
+const REFRESH_DELAY = 1000
+
+// Docked summary of every upload of the session, stays visible while
+// browsing so uploads into other folders can be followed
+export const UploadTray = () => {
+  const t = useT()
+  const { pathname } = useRouter()
+  const { refresh } = usePath()
+  const { isOpen, onToggle } = createDisclosure({
+    defaultIsOpen: localStorage.getItem("upload-tray-open") === "true",
+    onClose: () => localStorage.setItem("upload-tray-open", "false"),
+    onOpen: () => localStorage.setItem("upload-tray-open", "true"),
+  })
+  const summary = createMemo(uploadSummary)
+
+  // Refresh the open folder once uploads into it settle
+  let refreshTimer: ReturnType<typeof setTimeout> | undefined
+  const onUploaded = (dir: string) => {
+    if (dir !== pathname()) return
+    clearTimeout(refreshTimer)
+    refreshTimer = setTimeout(() => refresh(), REFRESH_DELAY)
+  }
+  bus.on("uploaded", onUploaded)
+  onCleanup(() => {
+    bus.off("uploaded", onUploaded)
+    clearTimeout(refreshTimer)
+  })
+
+  return (
+    <Show when={uploadStore.uploads.length > 0}>
+      <Box
+        pos="fixed"
+        left="$5"
+        bottom="$5"
+        zIndex="$sticky"
+        w={{ "@initial": "calc(100vw - 5rem)", "@md": "360px" }}
+        p="$2"
+        rounded="$lg"
+        bgColor="$neutral1"
+        shadow="$lg"
+        border="1px solid $neutral6"
+      >
+        <VStack spacing="$2" alignItems="stretch">
+          <HStack spacing="$2" justifyContent="space-between">
+            <Text
+              size="sm"
+              fontWeight="$semibold"
+              cursor="pointer"
+              onClick={() => bus.emit("tool", "upload")}
+            >
+              {t("home.upload.tray_title", {
+                active: summary().active,
+                total: uploadStore.uploads.filter((u) => !u.folder).length,
+              })}
+            </Text>
+            <HStack spacing="$1">
+              <Text size="xs" color="$neutral11">
+                {summary().progress.toFixed(0)}%
+              </Text>
+              <Show when={summary().speed > 0}>
+                <Text size="xs" color="$neutral11">
+                  {getFileSize(summary().speed)}/s
+                </Text>
+              </Show>
+              <Show when={summary().eta !== undefined}>
+                <Text size="xs" color="$neutral11">
+                  {t("home.upload.eta", {
+                    eta: formatDuration(summary().eta!),
+                  })}
+                </Text>
+              </Show>
+              <IconButton
+                size="xs"
+                variant="ghost"
+                aria-label={t("home.upload.toggle_tray")}
+                icon={isOpen() ? <FaSolidChevronDown /> : <FaSolidChevronUp />}
+                onClick={onToggle}
+              />
+            </HStack>
+          </HStack>
+          <Progress
+            w="$full"
+            trackColor="$info3"
+            rounded="$full"
+            value={summary().progress}
+            size="xs"
+          >
+            <ProgressIndicator color={getMainColor()} rounded="$md" />
+          </Progress>
+          <Show when={isOpen()}>
+            <VirtualList
+              each={uploadStore.uploads}
+              itemHeight={TRAY_ROW_HEIGHT}
+              maxHeight="40vh"
+            >
+              {(upload) => (
+                <HStack h="$full" spacing="$2" justifyContent="space-between">
+                  <Text
+                    size="xs"
+                    title={upload.upload_path}
+                    css={{
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {upload.upload_path}
+                  </Text>
+                  <HStack spacing="$1" flexShrink={0}>
+                    <Show when={!finished.includes(upload.status)}>
+                      <Text size="xs" color="$neutral11">
+                        {upload.progress.toFixed(0)}%
+                      </Text>
+                    </Show>
+                    <Badge colorScheme={StatusBadge[upload.status]}>
+                      {t(`home.upload.${upload.status}`)}
+                    </Badge>
+                  </HStack>
+                </HStack>
+              )}
+            </VirtualList>
+            <Show
+              when={uploadStore.uploads.some((u) =>
+                finished.includes(u.status),
+              )}
+            >
+              <Button size="xs" variant="subtle" onClick={clearFinished}>
+                {t(
+                  allDone()
+                    ? "home.upload.close_tray"
+                    : "home.upload.clear_done",
+                )}
+              </Button>
+            </Show>
+          </Show>
+        </VStack>
+      </Box>
+    </Show>
+  )
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { local } from "~/store"
+import {
+  bandwidthLimit,
+  cappedRequestSize,
+  inUploadWindow,
+  waitToSend,
+} from "./bandwidth"
+
+// the barrels pull in the whole app, only the local settings are needed
+vi.mock("~/store", () => ({ local: {} as Record<string, string> }))
+vi.mock("~/utils", () => ({}))
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes)
+
+afterEach(() => {
+  for (const key of Object.keys(local)) delete local[key]
+})
+
+describe("bandwidthLimit", () => {
+  it("is unlimited when unset or not positive", () => {
+    expect(bandwidthLimit()).toBe(0)
+    local["upload_bandwidth_limit"] = "0"
+    expect(bandwidthLimit()).toBe(0)
+    local["upload_bandwidth_limit"] = "-5"
+    expect(bandwidthLimit()).toBe(0)
+    local["upload_bandwidth_limit"] = "fast"
+    expect(bandwidthLimit()).toBe(0)
+  })
+
+  it("converts the unit to bytes per second", () => {
+    local["upload_bandwidth_limit"] = "2"
+    local["upload_bandwidth_unit"] = "mb"
+    expect(bandwidthLimit()).toBe(2 * 1024 * 1024)
+    local["upload_bandwidth_unit"] = "kb"
+    expect(bandwidthLimit()).toBe(2 * 1024)
+  })
+})
+
+describe("inUploadWindow", () => {
+  it.each([undefined, "", "anytime", "25:00-06:00", "08:00-08:00"])(
+    "allows any time for %s",
+    (window) => {
+      if (window !== undefined) local["upload_time_window"] = window
+      expect(inUploadWindow(at(12))).toBe(true)
+      expect(inUploadWindow(at(0))).toBe(true)
+    },
+  )
+
+  it("checks a window within the day", () => {
+    local["upload_time_window"] = "09:30-17:00"
+    expect(inUploadWindow(at(9, 29))).toBe(false)
+    expect(inUploadWindow(at(9, 30))).toBe(true)
+    expect(inUploadWindow(at(16, 59))).toBe(true)
+    expect(inUploadWindow(at(17))).toBe(false)
+  })
+
+  it("wraps a window past midnight", () => {
+    local["upload_time_window"] = "22:00-06:00"
+    expect(inUploadWindow(at(21, 59))).toBe(false)
+    expect(inUploadWindow(at(22))).toBe(true)
+    expect(inUploadWindow(at(3))).toBe(true)
+    expect(inUploadWindow(at(6))).toBe(false)
+    expect(inUploadWindow(at(12))).toBe(false)
+  })
+
+  it("ignores spaces around the times", () => {
+    local["upload_time_window"] = " 1:00 - 2:00 "
+    expect(inUploadWindow(at(1, 30))).toBe(true)
+    expect(inUploadWindow(at(2, 30))).toBe(false)
+  })
+})
+
+describe("cappedRequestSize", () => {
+  it("is unlimited without a cap", () => {
+    expect(cappedRequestSize()).toBe(Infinity)
+  })
+
+  it("sends about two seconds worth of the cap", () => {
+    local["upload_bandwidth_limit"] = "4"
+    expect(cappedRequestSize()).toBe(8 * 1024 * 1024)
+  })
+
+  it("doesn't go below 256 KiB", () => {
+    local["upload_bandwidth_limit"] = "10"
+    local["upload_bandwidth_unit"] = "kb"
+    expect(cappedRequestSize()).toBe(256 * 1024)
+  })
+})
+
+describe("waitToSend", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("sends right away without a cap", async () => {
+    await expect(waitToSend(100 * 1024 * 1024)).resolves.toBeUndefined()
+  })
+
+  it("lets a burst through and holds the requests after it", async () => {
+    vi.useFakeTimers()
+    // sending without a cap empties the budget
+    await waitToSend(0)
+    local["upload_bandwidth_limit"] = "1"
+    vi.setSystemTime(Date.now() + 5000)
+    // the budget kept while idle is one second of the cap
+    await waitToSend(2 * 1024 * 1024)
+    let done = false
+    const sent = waitToSend(1).then(() => {
+      done = true
+    })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(done).toBe(false)
+    await vi.advanceTimersByTimeAsync(1000)
+    await sent
+    expect(done).toBe(true)
+  })
+
+  it("waits for the time window", async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(at(12))
+    local["upload_time_window"] = "22:00-06:00"
+    let done = false
+    const sent = waitToSend(1).then(() => {
+      done = true
+    })
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    expect(done).toBe(false)
+    vi.setSystemTime(at(22))
+    await vi.advanceTimersByTimeAsync(1000)
+    await sent
+    expect(done).toBe(true)
+  })
+
+  it("stops once aborted", async () => {
+    const controller = new AbortController()
+    controller.abort(new Error("cancelled"))
+    await expect(waitToSend(1, controller.signal)).rejects.toThrow("cancelled")
+  })
+})
@@ -0,0 +1,90 @@
+import { local } from "~/store"
+import { sleep } from "./util"
+
+// Bandwidth cap and time window from local settings. The cap is one budget
+// shared by every running upload, both are read again on every request so
+// changing them applies to uploads already running.
+//
+// The cap works per request: a request waits until the budget allows its
+// size, then its body goes out as fast as the connection allows, XHR has no
+// way to pace it. Capped form and stream uploads are therefore sent in
+// requests of about CAPPED_REQUEST_SECONDS each, see cappedRequestSize, and
+// the cap is met on average over them. Direct uploads to a storage send the
+// requests the storage asks for, a large one bursts and the next ones wait.
+
+// Unused budget kept while idle, lets a short burst through
+const BURST_SECONDS = 1
+// A request waits at most this long before the settings are read again
+const RECHECK_MS = 1000
+// Requests of a capped upload should take about this long to send
+const CAPPED_REQUEST_SECONDS = 2
+const MIN_CAPPED_REQUEST = 256 * 1024
+
+// Bytes per second, 0 is unlimited
+export const bandwidthLimit = () => {
+  const limit = parseFloat(local["upload_bandwidth_limit"])
+  if (!(limit > 0)) return 0
+  return limit * (local["upload_bandwidth_unit"] === "kb" ? 1024 : 1024 * 1024)
+}
+
+// Minutes since midnight of "HH:MM"
+const parseTime = (time: string) => {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return
+  const [hours, minutes] = [parseInt(match[1]), parseInt(match[2])]
+  if (hours > 23 || minutes > 59) return
+  return hours * 60 + minutes
+}
+
+// "22:00-06:00" style window, unset or invalid means any time
+export const inUploadWindow = (now = new Date()) => {
+  const [from, to] = (local["upload_time_window"] ?? "").split("-")
+  const start = parseTime(from ?? "")
+  const end = parseTime(to ?? "")
+  if (start === undefined || end === undefined || start === end) return true
+  const minutes = now.getHours() * 60 + now.getMinutes()
+  // a window past midnight wraps around
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+}
+
+let budget = 0
+let lastRefill = Date.now()
+
+// Wait until the given bytes may be sent. The budget may go negative, a
+// large request is sent right away and the ones after it wait the longer.
+export const waitToSend = async (bytes: number, signal?: AbortSignal) => {
+  while (true) {
+    signal?.throwIfAborted()
+    if (!inUploadWindow()) {
+      await sleep(RECHECK_MS, signal)
+      continue
+    }
+    const limit = bandwidthLimit()
+    const now = Date.now()
+    if (limit <= 0) {
+      budget = 0
+      lastRefill = now
+      return
+    }
+    budget = Math.min(
+      limit * BURST_SECONDS,
+      budget + ((now - lastRefill) / 1000) * limit,
+    )
+    lastRefill = now
+    if (budget > 0) {
+      budget -= bytes
+      return
+    }
+    await sleep(Math.min((-budget / limit) * 1000, RECHECK_MS), signal)
+  }
+}
+
+// Largest request a capped upload should send at once, so the cap holds
+// within a file too and not only between files
+export const cappedRequestSize = () => {
+  const limit = bandwidthLimit()
+  if (limit <= 0) return Infinity
+  return Math.max(MIN_CAPPED_REQUEST, limit * CAPPED_REQUEST_SECONDS)
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { cappedRequestSize } from "./bandwidth"
+import {
+  createAdaptiveChunkSizer,
+  createChunkSizer,
+  createFixedChunkSizer,
+} from "./chunk_size"
+
+vi.mock("./bandwidth", () => ({ cappedRequestSize: vi.fn(() => Infinity) }))
+
+const MB = 1024 * 1024
+
+describe("createFixedChunkSizer", () => {
+  it("keeps the configured size", () => {
+    const sizer = createFixedChunkSizer(5 * MB)
+    sizer.success(5 * MB, 100)
+    sizer.failure()
+    expect(sizer.next()).toBe(5 * MB)
+  })
+})
+
+describe("createAdaptiveChunkSizer", () => {
+  it("starts at 8 MiB", () => {
+    expect(createAdaptiveChunkSizer(100 * MB).next()).toBe(8 * MB)
+  })
+
+  it("starts no larger than the maximum", () => {
+    expect(createAdaptiveChunkSizer(5 * MB).next()).toBe(5 * MB)
+  })
+
+  it("at most doubles on a fast link", () => {
+    const sizer = createAdaptiveChunkSizer(100 * MB)
+    sizer.success(8 * MB, 100)
+    expect(sizer.next()).toBe(16 * MB)
+    sizer.success(16 * MB, 100)
+    expect(sizer.next()).toBe(32 * MB)
+  })
+
+  it("stops growing at the maximum", () => {
+    const sizer = createAdaptiveChunkSizer(20 * MB)
+    sizer.success(8 * MB, 100)
+    sizer.success(16 * MB, 100)
+    expect(sizer.next()).toBe(20 * MB)
+  })
+
+  it("shrinks a slow chunk to about ten seconds", () => {
+    const sizer = createAdaptiveChunkSizer(100 * MB)
+    // 8 MiB in 40s is 200 KiB/s
+    sizer.success(8 * MB, 40 * 1000)
+    expect(sizer.next()).toBe(2 * MB)
+  })
+
+  it("rounds sizes down to 256 KiB", () => {
+    const sizer = createAdaptiveChunkSizer(100 * MB)
+    sizer.success(8 * MB, 30 * 1000)
+    expect(sizer.next()).toBe(2.5 * MB)
+    expect(sizer.next() % (256 * 1024)).toBe(0)
+  })
+
+  it("halves on a failure and grows back slowly", () => {
+    const sizer = createAdaptiveChunkSizer(100 * MB)
+    sizer.failure()
+    expect(sizer.next()).toBe(4 * MB)
+    sizer.success(4 * MB, 100)
+    expect(sizer.next()).toBe(6 * MB)
+    sizer.success(6 * MB, 100)
+    expect(sizer.next()).toBe(9 * MB)
+  })
+
+  it("doesn't go below 1 MiB", () => {
+    const sizer = createAdaptiveChunkSizer(100 * MB)
+    for (let i = 0; i < 10; i++) sizer.failure()
+    expect(sizer.next()).toBe(MB)
+    sizer.success(MB, 60 * 1000)
+    expect(sizer.next()).toBe(MB)
+  })
+})
+
+describe("createChunkSizer", () => {
+  afterEach(() => {
+    vi.mocked(cappedRequestSize).mockReturnValue(Infinity)
+  })
+
+  it("picks the sizer", () => {
+    expect(createChunkSizer(20 * MB, false).next()).toBe(20 * MB)
+    expect(createChunkSizer(20 * MB, true).next()).toBe(8 * MB)
+  })
+
+  it("keeps chunks short under a bandwidth cap", () => {
+    vi.mocked(cappedRequestSize).mockReturnValue(3 * MB + 1000)
+    expect(createChunkSizer(20 * MB, false).next()).toBe(3 * MB)
+    expect(createChunkSizer(20 * MB, true).next()).toBe(3 * MB)
+  })
+
+  it("sends at least 256 KiB under a small cap", () => {
+    vi.mocked(cappedRequestSize).mockReturnValue(1000)
+    expect(createChunkSizer(20 * MB, false).next()).toBe(256 * 1024)
+  })
+})
@@ -0,0 +1,68 @@
+import { cappedRequestSize } from "./bandwidth"
+
+// Adaptive chunk sizing: start small, grow on fast and reliable links,
+// shrink when chunks are slow or fail
+
+const MB = 1024 * 1024
+const MIN_CHUNK_SIZE = 1 * MB
+const INITIAL_CHUNK_SIZE = 8 * MB
+// Sizes are rounded down to this granularity
+const ALIGN = 256 * 1024
+// A chunk should take about this long to send: long enough to amortize the
+// per-request overhead, short enough that a failed chunk doesn't waste much
+const TARGET_SECONDS = 10
+
+export interface ChunkSizer {
+  // size of the next chunk to send
+  next: () => number
+  // a chunk of the given size was acknowledged after the given milliseconds
+  success: (size: number, ms: number) => void
+  // a chunk failed and will be retried
+  failure: () => void
+}
+
+const align = (size: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.floor(size / ALIGN) * ALIGN))
+
+// Fixed sizer, every chunk has the configured size
+export const createFixedChunkSizer = (chunkSize: number): ChunkSizer => ({
+  next: () => chunkSize,
+  success: () => {},
+  failure: () => {},
+})
+
+export const createAdaptiveChunkSizer = (maxSize: number): ChunkSizer => {
+  const min = Math.min(MIN_CHUNK_SIZE, maxSize)
+  let current = align(INITIAL_CHUNK_SIZE, min, maxSize)
+  // After a failure growth is capped, the cap is lifted again step by step
+  let ceiling = maxSize
+  return {
+    next: () => current,
+    success: (size, ms) => {
+      const seconds = Math.max(ms, 1) / 1000
+      const ideal = (size / seconds) * TARGET_SECONDS
+      ceiling = Math.min(maxSize, ceiling * 1.5)
+      // grow at most twice as large per chunk, shrink straight to the ideal
+      current = align(Math.min(ideal, current * 2, ceiling), min, maxSize)
+    },
+    failure: () => {
+      current = align(current / 2, min, maxSize)
+      ceiling = current
+    },
+  }
+}
+
+export const createChunkSizer = (
+  maxSize: number,
+  adaptive: boolean,
+): ChunkSizer => {
+  const sizer = adaptive
+    ? createAdaptiveChunkSizer(maxSize)
+    : createFixedChunkSizer(maxSize)
+  // chunks stay short while a bandwidth cap is set
+  return {
+    ...sizer,
+    next: () =>
+      Math.min(sizer.next(), align(cappedRequestSize(), ALIGN, maxSize)),
+  }
+}
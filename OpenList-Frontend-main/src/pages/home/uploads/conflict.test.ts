@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from "vitest"
+import { Obj } from "~/types"
+import { fsList } from "~/utils"
+import {
+  actionsByPolicy,
+  autoRename,
+  findConflicts,
+  isIdentical,
+  resolveConflicts,
+} from "./conflict"
+import { ConflictAction, QueuedUpload } from "./types"
+
+// the barrels pull in the whole app, only the listing and the path helpers
+// are needed
+vi.mock("~/store", () => ({ password: () => "" }))
+vi.mock("~/utils", () => ({
+  fsList: vi.fn(),
+  pathBase: (path: string) => path.split("/").pop(),
+  pathDir: (path: string) => path.split("/").slice(0, -1).join("/"),
+  pathJoin: (...paths: string[]) => paths.join("/").replace(/\/{2,}/g, "/"),
+}))
+
+const MODIFIED = new Date("2024-05-01T12:00:00Z").getTime()
+
+const queued = (path: string, size = 10): QueuedUpload => ({
+  file: new File(["x".repeat(size)], path.split("/").pop()!, {
+    lastModified: MODIFIED,
+  }),
+  path,
+  uploadPath: `/dst/${path}`,
+  uploader: "Stream",
+  asTask: false,
+  overwrite: false,
+  rapid: true,
+})
+
+const remote = (name: string, obj: Partial<Obj> = {}) =>
+  ({
+    name,
+    size: 10,
+    is_dir: false,
+    modified: new Date(MODIFIED).toISOString(),
+    ...obj,
+  }) as Obj
+
+const targetsOf = (listing: Record<string, string[]>) =>
+  new Map(
+    Object.entries(listing).map(([dir, names]) => [
+      dir,
+      new Map(names.map((name) => [name, remote(name)])),
+    ]),
+  )
+
+describe("autoRename", () => {
+  it("numbers the name before the extension", () => {
+    expect(autoRename("a.txt", new Set(["a.txt"]))).toBe("a (1).txt")
+    expect(autoRename("archive.tar.gz", new Set())).toBe("archive.tar (1).gz")
+  })
+
+  it("skips the numbers taken", () => {
+    const taken = new Set(["a.txt", "a (1).txt", "a (2).txt"])
+    expect(autoRename("a.txt", taken)).toBe("a (3).txt")
+  })
+
+  it("appends to names without an extension", () => {
+    expect(autoRename("README", new Set())).toBe("README (1)")
+    expect(autoRename(".env", new Set())).toBe(".env (1)")
+  })
+})
+
+describe("isIdentical", () => {
+  it("matches the same size and modification time", () => {
+    const item = queued("a.txt")
+    expect(isIdentical({ item, remote: remote("a.txt") })).toBe(true)
+  })
+
+  it("tolerates imprecise remote times", () => {
+    const item = queued("a.txt")
+    const modified = new Date(MODIFIED - 1500).toISOString()
+    expect(isIdentical({ item, remote: remote("a.txt", { modified }) })).toBe(
+      true,
+    )
+  })
+
+  it("tells apart a different size, time or a folder", () => {
+    const item = queued("a.txt")
+    const later = new Date(MODIFIED + 60 * 1000).toISOString()
+    expect(isIdentical({ item, remote: remote("a.txt", { size: 11 }) })).toBe(
+      false,
+    )
+    expect(
+      isIdentical({ item, remote: remote("a.txt", { modified: later }) }),
+    ).toBe(false)
+    expect(
+      isIdentical({ item, remote: remote("a.txt", { is_dir: true }) }),
+    ).toBe(false)
+  })
+})
+
+describe("actionsByPolicy", () => {
+  it("applies the action, skipping identical files if asked", () => {
+    const same = queued("same.txt")
+    const changed = queued("changed.txt")
+    const conflicts = [
+      { item: same, remote: remote("same.txt") },
+      { item: changed, remote: remote("changed.txt", { size: 99 }) },
+    ]
+    const actions = actionsByPolicy(conflicts, {
+      action: "overwrite",
+      skipIdentical: true,
+    })
+    expect(actions.get(same)).toBe("skip")
+    expect(actions.get(changed)).toBe("overwrite")
+    expect(
+      actionsByPolicy(conflicts, { action: "rename", skipIdentical: false }),
+    ).toEqual(
+      new Map([
+        [same, "rename"],
+        [changed, "rename"],
+      ]),
+    )
+  })
+})
+
+describe("findConflicts", () => {
+  it("lists every target folder once", async () => {
+    vi.mocked(fsList).mockImplementation(async (path) =>
+      path === "/dst"
+        ? ({ code: 200, data: { content: [remote("a.txt")] } } as any)
+        : ({ code: 500, message: "object not found" } as any),
+    )
+    const items = [queued("a.txt"), queued("b.txt"), queued("new/c.txt")]
+    const { conflicts, targets } = await findConflicts(items)
+    expect(conflicts.map((c) => c.item)).toEqual([items[0]])
+    const listed = vi.mocked(fsList).mock.calls.map(([path]) => path)
+    expect(listed.sort()).toEqual(["/dst", "/dst/new"])
+    // a folder that doesn't exist yet has no names
+    expect(targets.get("/dst/new")?.size).toBe(0)
+  })
+})
+
+describe("resolveConflicts", () => {
+  it("skips, overwrites and renames", () => {
+    const skip = queued("skip.txt")
+    const overwrite = queued("overwrite.txt")
+    const rename = queued("sub/rename.txt")
+    const free = queued("free.txt")
+    const actions = new Map<QueuedUpload, ConflictAction>([
+      [skip, "skip"],
+      [overwrite, "overwrite"],
+      [rename, "rename"],
+    ])
+    const targets = targetsOf({
+      "/dst": ["skip.txt", "overwrite.txt"],
+      "/dst/sub": ["rename.txt"],
+    })
+    const resolved = resolveConflicts(
+      [skip, overwrite, rename, free],
+      actions,
+      targets,
+    )
+    expect(resolved.map((item) => [item.uploadPath, item.overwrite])).toEqual([
+      ["/dst/overwrite.txt", true],
+      ["/dst/sub/rename (1).txt", false],
+      ["/dst/free.txt", false],
+    ])
+    expect(resolved[1].path).toBe("sub/rename (1).txt")
+  })
+
+  it("doesn't rename onto a queued file", () => {
+    const first = queued("a.txt")
+    const taken = queued("a (1).txt")
+    const resolved = resolveConflicts(
+      [first, taken],
+      new Map([[first, "rename"]]),
+      targetsOf({ "/dst": ["a.txt"] }),
+    )
+    expect(resolved[0].uploadPath).toBe("/dst/a (2).txt")
+  })
+
+  it("carries the names taken over to the next batch", () => {
+    const taken = new Map<string, Set<string>>()
+    const first = queued("a.txt")
+    resolveConflicts(
+      [first],
+      new Map([[first, "rename"]]),
+      targetsOf({ "/dst": ["a.txt"] }),
+      taken,
+    )
+    // the renamed file of the first batch isn't listed remotely yet
+    const second = queued("a.txt")
+    const [resolved] = resolveConflicts(
+      [second],
+      new Map([[second, "rename"]]),
+      targetsOf({ "/dst": ["a.txt"] }),
+      taken,
+    )
+    expect(resolved.uploadPath).toBe("/dst/a (2).txt")
+  })
+})
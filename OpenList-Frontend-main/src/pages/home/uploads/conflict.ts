@@ -0,0 +1,131 @@
+import { password } from "~/store"
+import { Obj } from "~/types"
+import { fsList, pathBase, pathDir, pathJoin } from "~/utils"
+import { asyncPool } from "~/utils/async_pool"
+import { ConflictAction, QueuedUpload } from "./types"
+
+// Target folders listed at the same time
+const LIST_CONCURRENCY = 3
+// Remote modification times are not always stored with full precision
+const MODIFIED_TOLERANCE = 2000
+
+const dirOf = (path: string) => pathDir(path) || "/"
+
+export interface Conflict {
+  item: QueuedUpload
+  remote: Obj
+}
+
+// Names in each target folder, folders that don't exist yet have none
+const listTargets = async (dirs: string[]) => {
+  const targets = new Map<string, Map<string, Obj>>()
+  const list = async (dir: string) => {
+    const resp = await fsList(dir, password())
+    const objs = new Map<string, Obj>()
+    if (resp.code === 200) {
+      for (const obj of resp.data.content ?? []) {
+        objs.set(obj.name, obj)
+      }
+    }
+    targets.set(dir, objs)
+  }
+  for await (const _ of asyncPool(LIST_CONCURRENCY, dirs, list)) {
+    // collected in list
+  }
+  return targets
+}
+
+// Find the queued files whose name is taken in their target folder
+export const findConflicts = async (queued: QueuedUpload[]) => {
+  const dirs = [...new Set(queued.map((item) => dirOf(item.uploadPath)))]
+  const targets = await listTargets(dirs)
+  const conflicts: Conflict[] = []
+  for (const item of queued) {
+    const objs = targets.get(dirOf(item.uploadPath))
+    const remote = objs?.get(pathBase(item.uploadPath)!)
+    if (remote) {
+      conflicts.push({ item, remote })
+    }
+  }
+  return { conflicts, targets }
+}
+
+// The remote object most likely is the same file uploaded before
+export const isIdentical = ({ item, remote }: Conflict) =>
+  !remote.is_dir &&
+  remote.size === item.file.size &&
+  Math.abs(new Date(remote.modified).getTime() - item.file.lastModified) <
+    MODIFIED_TOLERANCE
+
+// What "apply to all" chose, it stands for the later batches of the same
+// upload as well
+export interface ConflictPolicy {
+  action: ConflictAction
+  skipIdentical: boolean
+}
+
+export const actionsByPolicy = (
+  conflicts: Conflict[],
+  policy: ConflictPolicy,
+) =>
+  new Map(
+    conflicts.map(({ item, remote }): [QueuedUpload, ConflictAction] => [
+      item,
+      policy.skipIdentical && isIdentical({ item, remote })
+        ? "skip"
+        : policy.action,
+    ]),
+  )
+
+// First free name of the form `name (1).ext`
+export const autoRename = (name: string, taken: Set<string>) => {
+  const dot = name.lastIndexOf(".")
+  const [base, ext] =
+    dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""]
+  for (let i = 1; ; i++) {
+    const candidate = `${base} (${i})${ext}`
+    if (!taken.has(candidate)) return candidate
+  }
+}
+
+// Apply the decisions, skipped files are dropped from the batch. Names are
+// taken in each folder by remote objects and queued or renamed files, taken
+// carries them over to the next batch, whose files may not be there yet.
+export const resolveConflicts = (
+  queued: QueuedUpload[],
+  actions: Map<QueuedUpload, ConflictAction>,
+  targets: Map<string, Map<string, Obj>>,
+  taken = new Map<string, Set<string>>(),
+) => {
+  for (const [dir, objs] of targets) {
+    const names = taken.get(dir) ?? new Set()
+    objs.forEach((_, name) => names.add(name))
+    taken.set(dir, names)
+  }
+  for (const item of queued) {
+    taken.get(dirOf(item.uploadPath))?.add(pathBase(item.uploadPath)!)
+  }
+  const resolved: QueuedUpload[] = []
+  for (const item of queued) {
+    const action = actions.get(item)
+    if (action === "skip") continue
+    if (action === "overwrite") {
+      resolved.push({ ...item, overwrite: true })
+      continue
+    }
+    if (action === "rename") {
+      const dir = dirOf(item.uploadPath)
+      const names = taken.get(dir)!
+      const name = autoRename(pathBase(item.uploadPath)!, names)
+      names.add(name)
+      resolved.push({
+        ...item,
+        uploadPath: pathJoin(dir, name),
+        path: pathJoin(pathDir(item.path), name).replace(/^\//, ""),
+      })
+      continue
+    }
+    resolved.push(item)
+  }
+  return resolved
+}
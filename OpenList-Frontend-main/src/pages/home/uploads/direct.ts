@@ -1,5 +1,6 @@
 import { Upload, SetUpload } from "./types"
 import { r, pathDir } from "~/utils"
+import { waitToSend } from "./bandwidth"
 
 // Create a speed calculator using closure
 function createSpeedCalculator(throttleMs = 500) {
@@ -19,6 +20,21 @@ function createSpeedCalculator(throttleMs = 500) {
   }
 }
 
+// Abort the request when the upload is paused or canceled
+function abortWith(
+  xhr: XMLHttpRequest,
+  signal: AbortSignal | undefined,
+  reject: (reason: any) => void,
+) {
+  if (!signal) return
+  const onAbort = () => xhr.abort()
+  signal.addEventListener("abort", onAbort, { once: true })
+  xhr.addEventListener("loadend", () =>
+    signal.removeEventListener("abort", onAbort),
+  )
+  xhr.addEventListener("abort", () => reject(signal.reason))
+}
+
 export const HttpDirectUpload: Upload = async (
   uploadPath: string,
   file: File,
@@ -26,6 +42,7 @@ export const HttpDirectUpload: Upload = async (
   _asTask: boolean,
   overwrite: boolean,
   _rapid: boolean,
+  signal?: AbortSignal,
 ) => {
   const path = pathDir(uploadPath)
 
@@ -42,8 +59,10 @@ export const HttpDirectUpload: Upload = async (
       headers: {
         Overwrite: overwrite,
       },
+      signal,
     },
   )
+  signal?.throwIfAborted()
 
   const uploadInfo = resp.data
 
@@ -67,6 +86,7 @@ export const HttpDirectUpload: Upload = async (
       method,
       uploadInfo.headers,
       setUpload,
+      signal,
     )
   } else {
     // Single upload for drivers that don't support chunking
@@ -76,6 +96,7 @@ export const HttpDirectUpload: Upload = async (
       method,
       uploadInfo.headers,
       setUpload,
+      signal,
     )
   }
 }
@@ -86,11 +107,16 @@ async function uploadSingle(
   method: string,
   headers?: Record<string, string>,
   setUpload?: SetUpload,
+  signal?: AbortSignal,
 ): Promise<undefined> {
+  // the storage decides the request size, the cap only holds between files
+  await waitToSend(file.size, signal)
   const xhr = new XMLHttpRequest()
   const calcSpeed = createSpeedCalculator()
 
   return new Promise((resolve, reject) => {
+    abortWith(xhr, signal, reject)
+
     xhr.upload.addEventListener("progress", (e) => {
       if (e.lengthComputable && setUpload) {
         const progress = (e.loaded / e.total) * 100
@@ -131,6 +157,7 @@ async function uploadChunked(
   method: string,
   headers?: Record<string, string>,
   setUpload?: SetUpload,
+  signal?: AbortSignal,
 ): Promise<undefined> {
   const totalChunks = Math.ceil(file.size / chunkSize)
   const calcSpeed = createSpeedCalculator()
@@ -141,9 +168,12 @@ async function uploadChunked(
     const end = Math.min(start + chunkSize, file.size)
     const chunk = file.slice(start, end)
 
+    await waitToSend(chunk.size, signal)
     const xhr = new XMLHttpRequest()
 
     await new Promise<void>((resolve, reject) => {
+      abortWith(xhr, signal, reject)
+
       xhr.upload.addEventListener("progress", (e) => {
         if (e.lengthComputable && setUpload) {
           const totalLoaded = uploadedBytes + e.loaded
@@ -0,0 +1,241 @@
+// EXIF of a source image carried over to its re-encoded copy. Canvas output
+// has no metadata, the TIFF block of the source is copied into the APP1
+// segment of a JPEG or the EXIF chunk of a WebP.
+
+const ascii = (text: string) =>
+  new Uint8Array(Array.from(text, (c) => c.charCodeAt(0)))
+
+const text = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length))
+
+const concat = (...parts: Uint8Array[]) => {
+  const res = new Uint8Array(parts.reduce((n, part) => n + part.length, 0))
+  let pos = 0
+  for (const part of parts) {
+    res.set(part, pos)
+    pos += part.length
+  }
+  return res
+}
+
+const viewOf = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+// TIFF data of the Exif APP1 segment of a JPEG
+const jpegExif = (bytes: Uint8Array) => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return
+  let pos = 2
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1]
+    // start of scan, the image data follows
+    if (marker === 0xda) return
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3]
+    if (marker === 0xe1 && text(bytes, pos + 4, 6) === "Exif\0\0") {
+      return bytes.slice(pos + 10, pos + 2 + length)
+    }
+    pos += 2 + length
+  }
+}
+
+interface Box {
+  type: string
+  // payload, without the box header
+  start: number
+  end: number
+}
+
+// ISO BMFF boxes between start and end
+const boxes = (bytes: Uint8Array, start: number, end: number) => {
+  const view = viewOf(bytes)
+  const res: Box[] = []
+  let pos = start
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos)
+    let header = 8
+    if (size === 1) {
+      size = view.getUint32(pos + 8) * 2 ** 32 + view.getUint32(pos + 12)
+      header = 16
+    } else if (size === 0) {
+      size = end - pos
+    }
+    if (size < header || pos + size > end) break
+    res.push({
+      type: text(bytes, pos + 4, 4),
+      start: pos + header,
+      end: pos + size,
+    })
+    pos += size
+  }
+  return res
+}
+
+// TIFF data of the Exif item of a HEIF, located through the item info and
+// item location boxes of the meta box
+const heifExif = (bytes: Uint8Array) => {
+  const view = viewOf(bytes)
+  const meta = boxes(bytes, 0, bytes.length).find((box) => box.type === "meta")
+  if (!meta) return
+  // meta, iinf, infe and iloc are full boxes, version and flags come first
+  const children = boxes(bytes, meta.start + 4, meta.end)
+  const iinf = children.find((box) => box.type === "iinf")
+  const iloc = children.find((box) => box.type === "iloc")
+  if (!iinf || !iloc) return
+
+  let exifId: number | undefined
+  const entryCount = bytes[iinf.start] === 0 ? 2 : 4
+  for (const infe of boxes(bytes, iinf.start + 4 + entryCount, iinf.end)) {
+    const version = bytes[infe.start]
+    if (infe.type !== "infe" || version < 2) continue
+    const id =
+      version === 2
+        ? view.getUint16(infe.start + 4)
+        : view.getUint32(infe.start + 4)
+    // item id, protection index, item type
+    const typeAt = infe.start + 4 + (version === 2 ? 2 : 4) + 2
+    if (text(bytes, typeAt, 4) === "Exif") {
+      exifId = id
+      break
+    }
+  }
+  if (exifId === undefined) return
+
+  const version = bytes[iloc.start]
+  let pos = iloc.start + 4
+  const read = (size: number) => {
+    let value = 0
+    for (let i = 0; i < size; i++) value = value * 256 + bytes[pos++]
+    return value
+  }
+  const offsetSize = bytes[pos] >> 4
+  const lengthSize = bytes[pos] & 15
+  const baseOffsetSize = bytes[pos + 1] >> 4
+  const indexSize = version > 0 ? bytes[pos + 1] & 15 : 0
+  pos += 2
+  const idSize = version < 2 ? 2 : 4
+  const itemCount = read(idSize)
+  for (let i = 0; i < itemCount && pos < iloc.end; i++) {
+    const id = read(idSize)
+    const method = version > 0 ? read(2) & 15 : 0
+    // data reference index
+    read(2)
+    const base = read(baseOffsetSize)
+    const extents: Uint8Array[] = []
+    const extentCount = read(2)
+    for (let e = 0; e < extentCount; e++) {
+      if (indexSize > 0) read(indexSize)
+      const offset = base + read(offsetSize)
+      const length = read(lengthSize)
+      extents.push(
+        bytes.subarray(offset, length ? offset + length : bytes.length),
+      )
+    }
+    if (id !== exifId) continue
+    // only data stored at file offsets, not in an idat box
+    if (method !== 0) return
+    const data = concat(...extents)
+    // the item starts with the offset of the TIFF header after it
+    return data.slice(4 + viewOf(data).getUint32(0))
+  }
+}
+
+// Pixels are written upright, the orientation tag of IFD0 must say so
+const resetOrientation = (tiff: Uint8Array) => {
+  const view = viewOf(tiff)
+  const little = text(tiff, 0, 2) === "II"
+  const ifd = view.getUint32(4, little)
+  const count = view.getUint16(ifd, little)
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12
+    if (view.getUint16(entry, little) === 0x0112) {
+      view.setUint16(entry + 8, 1, little)
+      return
+    }
+  }
+}
+
+// EXIF of a JPEG or HEIF as TIFF data, undefined when it has none or it
+// can't be read
+export const readExif = (bytes: Uint8Array, heif: boolean) => {
+  try {
+    const tiff = heif ? heifExif(bytes) : jpegExif(bytes)
+    if (!tiff || tiff.length < 8) return
+    resetOrientation(tiff)
+    return tiff
+  } catch (e) {
+    console.warn("[Image] unreadable EXIF:", e)
+  }
+}
+
+const withJpegExif = (jpeg: Uint8Array, tiff: Uint8Array) => {
+  const length = 2 + 6 + tiff.length
+  // more than a segment can hold
+  if (length > 0xffff) return
+  const header = concat(
+    new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]),
+    ascii("Exif\0\0"),
+  )
+  // after the JFIF segment, which has to come first
+  let pos = 2
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    pos = 4 + ((jpeg[4] << 8) | jpeg[5])
+  }
+  return concat(jpeg.subarray(0, pos), header, tiff, jpeg.subarray(pos))
+}
+
+// little endian
+const setUint24 = (bytes: Uint8Array, pos: number, value: number) => {
+  bytes[pos] = value & 0xff
+  bytes[pos + 1] = (value >> 8) & 0xff
+  bytes[pos + 2] = (value >> 16) & 0xff
+}
+
+// A simple WebP gets the extended header, metadata needs its flags
+const withWebpExif = (
+  webp: Uint8Array,
+  tiff: Uint8Array,
+  width: number,
+  height: number,
+) => {
+  if (text(webp, 0, 4) !== "RIFF" || text(webp, 8, 4) !== "WEBP") return
+  const first = text(webp, 12, 4)
+  let chunks = webp.slice(12)
+  if (first === "VP8X") {
+    chunks[8] |= 0x08
+  } else {
+    const vp8x = new Uint8Array(18)
+    const view = viewOf(vp8x)
+    vp8x.set(ascii("VP8X"))
+    view.setUint32(4, 10, true)
+    // EXIF, and alpha for a lossless image that may have it
+    vp8x[8] = 0x08 | (first === "VP8L" ? 0x10 : 0)
+    setUint24(vp8x, 12, width - 1)
+    setUint24(vp8x, 15, height - 1)
+    chunks = concat(vp8x, chunks)
+  }
+  const exif = new Uint8Array(8 + tiff.length + (tiff.length % 2))
+  exif.set(ascii("EXIF"))
+  viewOf(exif).setUint32(4, tiff.length, true)
+  exif.set(tiff, 8)
+  const res = concat(
+    ascii("RIFF"),
+    new Uint8Array(4),
+    ascii("WEBP"),
+    chunks,
+    exif,
+  )
+  viewOf(res).setUint32(4, res.length - 8, true)
+  return res
+}
+
+// Encoded JPEG or WebP with the given EXIF added, undefined when it can't
+// hold it
+export const writeExif = (
+  bytes: Uint8Array,
+  type: string,
+  tiff: Uint8Array,
+  width: number,
+  height: number,
+) =>
+  type === "image/webp"
+    ? withWebpExif(bytes, tiff, width, height)
+    : withJpegExif(bytes, tiff)
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { local } from "~/store"
+import { createUploadFilter } from "./filter"
+
+// the barrels pull in the whole app, only the local settings and the path
+// helpers are needed
+vi.mock("~/store", () => ({ local: {} as Record<string, string> }))
+vi.mock("~/utils", () => ({
+  ext: (path: string) => path.split(".").pop() ?? "",
+  pathBase: (path: string) => path.split("/").pop(),
+  pathDir: (path: string) => path.split("/").slice(0, -1).join("/"),
+}))
+
+const filterWith = (settings: Record<string, string>) => {
+  Object.assign(local, settings)
+  return createUploadFilter()
+}
+
+afterEach(() => {
+  for (const key of Object.keys(local)) delete local[key]
+})
+
+describe("ignore patterns", () => {
+  it("skips the defaults", () => {
+    const filter = filterWith({
+      upload_ignore_patterns:
+        ".DS_Store, Thumbs.db, desktop.ini, node_modules/, .git/",
+    })
+    expect(filter.skipFile(".DS_Store", 1)).toBe(true)
+    expect(filter.skipFile("photos/2024/Thumbs.db", 1)).toBe(true)
+    expect(filter.skipFolder("app/node_modules")).toBe(true)
+    expect(filter.skipFolder(".git")).toBe(true)
+    expect(filter.skipFile("app/index.js", 1)).toBe(false)
+  })
+
+  it("matches a name without a slash at any depth", () => {
+    const filter = filterWith({ upload_ignore_patterns: "*.log" })
+    expect(filter.skipFile("debug.log", 1)).toBe(true)
+    expect(filter.skipFile("a/b/debug.log", 1)).toBe(true)
+    expect(filter.skipFile("a/b/debug.log.txt", 1)).toBe(false)
+  })
+
+  it("anchors a pattern with a slash", () => {
+    const filter = filterWith({ upload_ignore_patterns: "build/*.js, /dist" })
+    expect(filter.skipFile("build/app.js", 1)).toBe(true)
+    expect(filter.skipFile("src/build/app.js", 1)).toBe(false)
+    expect(filter.skipFile("build/lib/app.js", 1)).toBe(false)
+    expect(filter.skipFolder("dist")).toBe(true)
+    expect(filter.skipFolder("src/dist")).toBe(false)
+  })
+
+  it("matches any number of folders with **", () => {
+    const filter = filterWith({ upload_ignore_patterns: "**/tmp/*.txt" })
+    expect(filter.skipFile("tmp/a.txt", 1)).toBe(true)
+    expect(filter.skipFile("a/b/tmp/c.txt", 1)).toBe(true)
+    expect(filter.skipFile("a/tmp/b/c.txt", 1)).toBe(false)
+  })
+
+  it("matches one character with ?", () => {
+    const filter = filterWith({ upload_ignore_patterns: "IMG_?.jpg" })
+    expect(filter.skipFile("IMG_1.jpg", 1)).toBe(true)
+    expect(filter.skipFile("IMG_12.jpg", 1)).toBe(false)
+  })
+
+  it("only matches folders with a trailing slash", () => {
+    const filter = filterWith({ upload_ignore_patterns: "cache/" })
+    expect(filter.skipFolder("a/cache")).toBe(true)
+    expect(filter.skipFile("a/cache", 1)).toBe(false)
+  })
+
+  it("re-includes with !, the last matching rule decides", () => {
+    const filter = filterWith({
+      upload_ignore_patterns: "# logs\n*.log\n!keep.log",
+    })
+    expect(filter.skipFile("a.log", 1)).toBe(true)
+    expect(filter.skipFile("logs/keep.log", 1)).toBe(false)
+    expect(filter.skipFile("# logs", 1)).toBe(false)
+  })
+
+  it("skips the files of an ignored folder", () => {
+    const filter = filterWith({ upload_ignore_patterns: "node_modules/" })
+    expect(filter.skipFile("app/node_modules/x/index.js", 1)).toBe(true)
+    expect(filter.keepFolder("app/node_modules/x")).toBe(false)
+    expect(filter.keepFolder("app/src")).toBe(true)
+  })
+
+  it("escapes regex characters", () => {
+    const filter = filterWith({ upload_ignore_patterns: "a+b (1).txt" })
+    expect(filter.skipFile("a+b (1).txt", 1)).toBe(true)
+    expect(filter.skipFile("aab 1.txt", 1)).toBe(false)
+  })
+})
+
+describe("size and extension filters", () => {
+  it("skips files over the maximum size", () => {
+    const filter = filterWith({ upload_max_file_size: "1" })
+    expect(filter.skipFile("a.bin", 1024 * 1024)).toBe(false)
+    expect(filter.skipFile("a.bin", 1024 * 1024 + 1)).toBe(true)
+  })
+
+  it("keeps any size when the maximum is 0", () => {
+    const filter = filterWith({ upload_max_file_size: "0" })
+    expect(filter.skipFile("a.bin", 2 ** 40)).toBe(false)
+  })
+
+  it("keeps only the allowed extensions", () => {
+    const filter = filterWith({ upload_allowed_extensions: ".JPG, png" })
+    expect(filter.skipFile("a/photo.jpg", 1)).toBe(false)
+    expect(filter.skipFile("a/shot.PNG", 1)).toBe(false)
+    expect(filter.skipFile("a/anim.gif", 1)).toBe(true)
+    expect(filter.skipFile("a/README", 1)).toBe(true)
+  })
+
+  it("skips the denied extensions", () => {
+    const filter = filterWith({ upload_denied_extensions: "exe, .tmp" })
+    expect(filter.skipFile("setup.EXE", 1)).toBe(true)
+    expect(filter.skipFile("a.tmp", 1)).toBe(true)
+    expect(filter.skipFile("a.txt", 1)).toBe(false)
+  })
+})
+
+it("sums up what was skipped", () => {
+  const filter = filterWith({
+    upload_ignore_patterns: "*.log, .git/",
+    upload_max_file_size: "1",
+  })
+  filter.skipFolder(".git")
+  filter.skipFile("a.log", 10)
+  filter.skipFile("big.iso", 2 * 1024 * 1024)
+  filter.skipFile("a.txt", 10)
+  expect(filter.skipped).toEqual({
+    files: 2,
+    bytes: 10 + 2 * 1024 * 1024,
+    folders: 1,
+  })
+})
@@ -0,0 +1,118 @@
+import { local } from "~/store"
+import { ext, pathBase, pathDir } from "~/utils"
+
+// Files and folders left out of an upload by the filters in local settings
+
+interface Rule {
+  negate: boolean
+  dirOnly: boolean
+  regex: RegExp
+}
+
+const escape = (c: string) => c.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+
+const globToRegExp = (glob: string, anchored: boolean) => {
+  let re = ""
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" matches any number of folders, "**" anything
+      if (glob[i + 2] === "/") {
+        re += "(?:.*/)?"
+        i += 2
+      } else {
+        re += ".*"
+        i++
+      }
+    } else if (c === "*") {
+      re += "[^/]*"
+    } else if (c === "?") {
+      re += "[^/]"
+    } else {
+      re += escape(c)
+    }
+  }
+  return new RegExp(anchored ? `^${re}$` : `(?:^|/)${re}$`)
+}
+
+// gitignore style: a pattern without a slash matches the name at any depth,
+// a trailing slash only matches folders, a leading "!" re-includes
+const parseRule = (pattern: string): Rule => {
+  let p = pattern
+  const negate = p.startsWith("!")
+  if (negate) p = p.slice(1)
+  const dirOnly = p.endsWith("/")
+  if (dirOnly) p = p.slice(0, -1)
+  const anchored = p.includes("/")
+  return {
+    negate,
+    dirOnly,
+    regex: globToRegExp(p.replace(/^\//, ""), anchored),
+  }
+}
+
+// Settings hold comma or newline separated lists
+const splitList = (value?: string) =>
+  (value ?? "")
+    .split(/[,\n]/)
+    .map((s) => s.trim())
+    .filter((s) => s && !s.startsWith("#"))
+
+const extList = (value?: string) =>
+  splitList(value).map((e) => e.replace(/^\./, "").toLowerCase())
+
+export interface SkipSummary {
+  files: number
+  bytes: number
+  folders: number
+}
+
+export const createUploadFilter = () => {
+  const rules = splitList(local["upload_ignore_patterns"]).map(parseRule)
+  const maxSize = parseFloat(local["upload_max_file_size"]) * 1024 * 1024
+  const allowed = extList(local["upload_allowed_extensions"])
+  const denied = extList(local["upload_denied_extensions"])
+  const skipped: SkipSummary = { files: 0, bytes: 0, folders: 0 }
+
+  // the last matching rule decides, like in .gitignore
+  const ignored = (path: string, isDir: boolean) => {
+    let res = false
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue
+      if (rule.regex.test(path)) res = !rule.negate
+    }
+    return res
+  }
+  const ignoredFolder = (path: string): boolean =>
+    !!path && (ignoredFolder(pathDir(path)) || ignored(path, true))
+
+  return {
+    skipped,
+    // checked while traversing, so ignored folders are never read
+    skipFolder: (path: string) => {
+      if (!ignored(path, true)) return false
+      skipped.folders++
+      return true
+    },
+    // path is relative to the folder the upload is started in
+    skipFile: (path: string, size: number) => {
+      const name = pathBase(path)!
+      const extension = name.includes(".") ? ext(name).toLowerCase() : ""
+      const skip =
+        ignoredFolder(pathDir(path)) ||
+        ignored(path, false) ||
+        (maxSize > 0 && size > maxSize) ||
+        (allowed.length > 0 && !allowed.includes(extension)) ||
+        denied.includes(extension)
+      if (skip) {
+        skipped.files++
+        skipped.bytes += size
+      }
+      return skip
+    },
+    // folders listed up front, e.g. the empty ones of a dropped folder
+    keepFolder: (path: string) => !ignoredFolder(path),
+  }
+}
+
+export type UploadFilter = ReturnType<typeof createUploadFilter>
@@ -1,16 +1,25 @@
 import { password } from "~/store"
-import { getSetting } from "~/store"
-import { EmptyResp } from "~/types"
+import { getSetting, getSettingNumber, uploadConfig } from "~/store"
+import { Resp } from "~/types"
 import { r } from "~/utils"
+import { asyncPool } from "~/utils/async_pool"
 import { SetUpload, Upload } from "./types"
-import { calculateHash, calculateXXHash64 } from "./util"
-import { buf as crc32 } from "crc-32"
+import { calculateXXHash64, rapidUploadHeaders, verifyHash } from "./util"
+import {
+  getPersistedUpload,
+  PersistedUpload,
+  updatePersistedUpload,
+} from "./persist"
+import { createChunkSizer } from "./chunk_size"
+import { hashCRC32 } from "./hash_pool"
+import { cappedRequestSize, waitToSend } from "./bandwidth"
+import { createRetry, RequestError } from "./retry"
 
 // Default chunk size: 95MB (below Cloudflare's 100MB limit)
 const DEFAULT_CHUNK_SIZE = 95 * 1024 * 1024
 
 // Get chunk size from server settings or use default
-const getChunkSize = (): number => {
+export const getChunkSize = (): number => {
   const configuredSize = getSetting("chunked_upload_chunk_size")
   if (configuredSize) {
     return parseInt(configuredSize) * 1024 * 1024
@@ -18,6 +27,44 @@ const getChunkSize = (): number => {
   return DEFAULT_CHUNK_SIZE
 }
 
+// Number of chunks uploaded at the same time
+const getConcurrency = (): number => {
+  const configured = getSettingNumber("chunked_upload_concurrency", 3)
+  return Math.max(1, Math.floor(configured) || 1)
+}
+
+// Interval between merge status polls
+const MERGE_POLL_INTERVAL = 2000
+
+interface MergeResult {
+  status: "merging" | "done" | "error"
+  hash?: Record<string, string>
+  error?: string
+}
+
+// Wait for a background merge to finish, the result carries the hash of the
+// merged file. Servers without the status endpoint answer 404.
+const waitForMerge = async (
+  uploadId: string,
+  signal?: AbortSignal,
+): Promise<MergeResult | undefined> => {
+  while (true) {
+    const resp: any = await r.get("/fs/put/chunk/merge/status", {
+      params: { upload_id: uploadId },
+      signal,
+    })
+    signal?.throwIfAborted()
+    if (resp.code !== 200) {
+      console.warn(`[Chunked Upload] Merge status unavailable: ${resp.message}`)
+      return
+    }
+    if (resp.data.status !== "merging") {
+      return resp.data
+    }
+    await new Promise((r) => setTimeout(r, MERGE_POLL_INTERVAL))
+  }
+}
+
 // Generate a unique upload ID based on path, size, and file hash
 async function generateUploadId(path: string, file: File): Promise<string> {
   const sample = file.slice(0, Math.min(1024 * 1024, file.size))
@@ -33,15 +80,27 @@ async function generateUploadId(path: string, file: File): Promise<string> {
   return encodedId.replace(/[+/=]/g, "_")
 }
 
-// Split file into chunks
-function splitFile(file: File, chunkSize: number): Blob[] {
-  const chunks: Blob[] = []
-  let start = 0
-  while (start < file.size) {
-    chunks.push(file.slice(start, Math.min(start + chunkSize, file.size)))
-    start += chunkSize
+// Ask the server which chunks of this upload it already holds
+async function fetchUploadedChunks(
+  uploadId: string,
+  signal?: AbortSignal,
+): Promise<Map<number, number>> {
+  const held = new Map<number, number>()
+  const resp: any = await r.get(
+    `/fs/put/chunk/status?upload_id=${encodeURIComponent(uploadId)}`,
+    { signal },
+  )
+  signal?.throwIfAborted()
+  if (resp.code === 200) {
+    for (const chunk of resp.data?.chunks ?? []) {
+      held.set(chunk.index, chunk.size)
+    }
+  } else {
+    console.warn(
+      `[Chunked Upload] Failed to query chunk status: ${resp.message}`,
+    )
   }
-  return chunks
+  return held
 }
 
 // Chunked upload for large files
@@ -52,12 +111,24 @@ async function chunkedUpload(
   asTask: boolean,
   overwrite: boolean,
   chunkSize: number,
+  signal?: AbortSignal,
 ): Promise<undefined> {
+  // Replay the chunk sizes of an interrupted upload so its chunks line up
+  const persisted = await getPersistedUpload(uploadPath)
+  const plan: number[] =
+    persisted?.chunk_sizes && persisted.size === file.size
+      ? [...persisted.chunk_sizes]
+      : []
+  const replayed = plan.length
+  const sizer = createChunkSizer(chunkSize, uploadConfig.adaptiveChunk)
   const fileSizeMB = (file.size / 1024 / 1024).toFixed(2)
   const chunkSizeMB = (chunkSize / 1024 / 1024).toFixed(0)
 
-  // Calculate local file hash - Incremental non-blocking xxHash64
-  const hashPromise = calculateXXHash64(file)
+  // Calculate local file hash in a worker, alongside the chunk uploads
+  let hashedBytes = 0
+  const hashPromise = calculateXXHash64(file, signal, (loaded) => {
+    hashedBytes = loaded
+  })
     .then((xxhash) => {
       console.log(`[Chunked Upload] Local xxHash64: ${xxhash}`)
       return xxhash
@@ -70,44 +141,131 @@ async function chunkedUpload(
   // Generate upload ID
   const uploadId = await generateUploadId(uploadPath, file)
 
-  // Split file into chunks
-  const chunks = splitFile(file, chunkSize)
-  const totalChunks = chunks.length
-
   console.log(`[Chunked Upload] Starting: ${file.name}`)
   console.log(
-    `[Chunked Upload] File size: ${fileSizeMB} MB, Chunks: ${totalChunks} x ${chunkSizeMB} MB`,
+    `[Chunked Upload] File size: ${fileSizeMB} MB, Max chunk size: ${chunkSizeMB} MB` +
+      (uploadConfig.adaptiveChunk ? " (adaptive)" : ""),
   )
 
+  // Chunks that survived a previous attempt don't need to be sent again
+  setUpload("msg", "Checking uploaded chunks...")
+  const heldChunks = await fetchUploadedChunks(uploadId, signal)
+
+  // Bytes acknowledged by the server plus bytes of chunks still in flight
+  let completedBytes = 0
+  let resumedBytes = 0
+  const inFlight = new Map<number, number>()
+  const uploadedBytes = () => {
+    let bytes = completedBytes
+    inFlight.forEach((loaded) => (bytes += loaded))
+    return bytes
+  }
+
   // State for speed calculation
-  let totalUploadedBytes = 0
   const startTime = Date.now()
   let lastTime = startTime
   let lastLoaded = 0
   let instantSpeed = 0
   let averageSpeed = 0
+  const reportProgress = (force = false) => {
+    const totalUploadedBytes = uploadedBytes()
+    const now = Date.now()
+    const duration = (now - lastTime) / 1000
+    if (force || duration > 0.5) {
+      if (duration > 0) {
+        instantSpeed = Math.max(0, totalUploadedBytes - lastLoaded) / duration
+      }
+      averageSpeed =
+        (totalUploadedBytes - resumedBytes) / ((now - startTime) / 1000)
+      setUpload("speed", instantSpeed)
+      lastTime = now
+      lastLoaded = totalUploadedBytes
+    }
+    setUpload("progress", (totalUploadedBytes / file.size) * 95)
+  }
+
+  // Writes of the plan and of the progress are chained, so a resume never
+  // finds a chunk index ahead of the sizes recorded for it
+  let persisting: Promise<unknown> = Promise.resolve()
+  const persist = (patch: Partial<PersistedUpload>) => {
+    persisting = persisting.then(() => updatePersistedUpload(uploadPath, patch))
+    return persisting
+  }
 
-  // Upload each chunk with retry
-  for (let i = 0; i < totalChunks; i++) {
+  // Chunks are acknowledged out of order, only the leading run of finished
+  // chunks is recorded for resuming
+  const done: boolean[] = []
+  let chunkIndex = 0
+  const markDone = async (i: number) => {
+    done[i] = true
+    const prev = chunkIndex
+    while (done[chunkIndex]) chunkIndex++
+    if (chunkIndex !== prev) {
+      await persist({ chunk_index: chunkIndex })
+    }
+  }
+
+  // Chunks are planned lazily, so that each new chunk is sized from what
+  // was observed on the chunks before it. Every planned size is recorded,
+  // the merge relies on the chunk order only, but resuming needs the sizes.
+  type ChunkSpec = { index: number; start: number; size: number }
+  function* planChunks(): Generator<ChunkSpec> {
+    let index = 0
+    let start = 0
+    while (start < file.size) {
+      if (index >= plan.length) {
+        plan.push(Math.min(sizer.next(), file.size - start))
+        persist({ chunk_sizes: [...plan] })
+      }
+      const size = plan[index]
+      yield { index, start, size }
+      start += size
+      index++
+    }
+  }
+
+  const concurrency = getConcurrency()
+  console.log(
+    `[Chunked Upload] Uploading up to ${concurrency} chunks at a time`,
+  )
+
+  // Aborted by the caller or on the first chunk that fails for good, so the
+  // chunks still in flight stop with it
+  const chunksController = new AbortController()
+  const abortChunks = () => chunksController.abort(signal?.reason)
+  signal?.addEventListener("abort", abortChunks, { once: true })
+  const chunkSignal = chunksController.signal
+
+  // Upload a single chunk with retry
+  const uploadChunk = async ({ index: i, start, size }: ChunkSpec) => {
+    const chunk = file.slice(start, start + size)
+    // Only chunks of the replayed plan are known to hold the same bytes
+    if (i < replayed && heldChunks.get(i) === size) {
+      resumedBytes += size
+      completedBytes += size
+      lastLoaded += size
+      reportProgress()
+      await markDone(i)
+      return i
+    }
     const form = new FormData()
-    const chunk = chunks[i]
     form.append("file", chunk)
 
     // Calculate chunk CRC32
-    const chunkBuffer = await chunk.arrayBuffer()
-    const chunkCRC32 = (crc32(new Uint8Array(chunkBuffer)) >>> 0)
-      .toString(16)
-      .padStart(8, "0")
-
-    let attempt = 0
-    let success = false
-    while (attempt < 3 && !success) {
+    const chunkCRC32 = await hashCRC32(chunk, chunkSignal)
+
+    const retry = createRetry(`Chunk ${i + 1}`, setUpload, chunkSignal)
+    while (true) {
       try {
-        attempt++
         // Update status message
-        const retryMsg = attempt > 1 ? ` (Retry ${attempt}/3)` : ""
-        setUpload("msg", `Uploading chunk ${i + 1}/${totalChunks}${retryMsg}`)
+        const retryMsg =
+          retry.attempt() > 1
+            ? ` (Retry ${retry.attempt()}/${retry.attempts})`
+            : ""
+        setUpload("msg", `Uploading chunk ${i + 1}${retryMsg}`)
 
+        await waitToSend(chunk.size, chunkSignal)
+        inFlight.set(i, 0)
         const chunkStartTime = Date.now()
         const resp: any = await r.put(
           `/fs/put/chunk?upload_id=${encodeURIComponent(uploadId)}&index=${i}`,
@@ -118,47 +276,23 @@ async function chunkedUpload(
               "X-Chunk-CRC32": chunkCRC32,
               Password: password(),
             },
+            signal: chunkSignal,
             onUploadProgress: (progressEvent: any) => {
               if (progressEvent.total) {
-                totalUploadedBytes = i * chunkSize + progressEvent.loaded
-                const now = Date.now()
-                const duration = (now - lastTime) / 1000
-                if (duration > 0.5) {
-                  const loadedDiff = totalUploadedBytes - lastLoaded
-                  instantSpeed = loadedDiff / duration
-                  averageSpeed = totalUploadedBytes / ((now - startTime) / 1000)
-                  setUpload("speed", instantSpeed)
-                  console.log(
-                    `[Chunked Upload] Chunk ${i + 1} progress: ${(
-                      (progressEvent.loaded / progressEvent.total) *
-                      100
-                    ).toFixed(1)}%, Instant: ${(
-                      instantSpeed /
-                      1024 /
-                      1024
-                    ).toFixed(2)} MB/s, Average: ${(
-                      averageSpeed /
-                      1024 /
-                      1024
-                    ).toFixed(2)} MB/s`,
-                  )
-                  lastTime = now
-                  lastLoaded = totalUploadedBytes
-                }
-                const chunkProgress =
-                  (progressEvent.loaded / progressEvent.total) *
-                  (chunkSize / file.size) *
-                  95
-                const overallProgress = (i / totalChunks) * 95 + chunkProgress
-                setUpload("progress", overallProgress)
+                // loaded includes the multipart envelope, never count more
+                // than the chunk itself
+                inFlight.set(i, Math.min(progressEvent.loaded, chunk.size))
+                reportProgress()
               }
             },
           },
         )
         const elapsed = Date.now() - chunkStartTime
+        inFlight.delete(i)
+        chunkSignal.throwIfAborted()
 
         if (resp.code !== 200) {
-          throw new Error(`Server returned ${resp.code}: ${resp.message}`)
+          throw new RequestError(resp.code, resp.message)
         }
 
         // Log server returned CRC if available
@@ -168,44 +302,68 @@ async function chunkedUpload(
           )
         }
 
-        totalUploadedBytes = (i + 1) * chunkSize
-        const chunkBytes = chunks[i].size
-        const chunkSpeed = chunkBytes / (elapsed / 1000)
-        instantSpeed = chunkSpeed
-        averageSpeed = totalUploadedBytes / ((Date.now() - startTime) / 1000)
-        setUpload("speed", instantSpeed)
-
-        const progress = ((i + 1) / totalChunks) * 95
-        setUpload("progress", progress)
+        completedBytes += chunk.size
+        reportProgress()
+        sizer.success(chunk.size, elapsed)
+        await markDone(i)
 
+        const chunkSpeed = chunk.size / (elapsed / 1000)
         console.log(
-          `[Chunked Upload] Chunk ${i + 1}/${totalChunks} done (${(
-            chunkSpeed /
-            1024 /
-            1024
-          ).toFixed(2)} MB/s), Average: ${(
-            averageSpeed /
+          `[Chunked Upload] Chunk ${i + 1} (${(
+            chunk.size /
             1024 /
             1024
-          ).toFixed(2)} MB/s`,
+          ).toFixed(2)} MB) done (${(chunkSpeed / 1024 / 1024).toFixed(
+            2,
+          )} MB/s), Average: ${(averageSpeed / 1024 / 1024).toFixed(2)} MB/s`,
         )
-        success = true
+        return i
       } catch (e: any) {
+        inFlight.delete(i)
+        // Paused, canceled or stopped by another chunk, don't retry
+        if (chunkSignal.aborted) throw e
+        sizer.failure()
         console.error(
-          `[Chunked Upload] Chunk ${i + 1} attempt ${attempt} failed: ${e.message}`,
+          `[Chunked Upload] Chunk ${i + 1} attempt ${retry.attempt()} failed: ${e.message}`,
         )
-        if (attempt >= 3) {
-          throw new Error(`Chunk ${i + 1} failed after 3 attempts: ${e.message}`)
-        }
-        // Wait 1s before retry
-        await new Promise((r) => setTimeout(r, 1000))
+        await retry.failed(e)
       }
     }
   }
 
+  // Chunks still running when the pool gives up
+  const running = new Set<Promise<number>>()
+  const startChunk = (spec: ChunkSpec) => {
+    const upload = uploadChunk(spec)
+    const settled = () => running.delete(upload)
+    running.add(upload)
+    upload.then(settled, settled)
+    return upload
+  }
+  try {
+    for await (const _ of asyncPool(concurrency, planChunks(), startChunk)) {
+      // progress is reported from within uploadChunk
+    }
+  } catch (e) {
+    // Let the other chunks stop before giving up, so none of them reports
+    // progress or records a chunk after the upload failed
+    abortChunks()
+    await Promise.allSettled(running)
+    throw e
+  } finally {
+    signal?.removeEventListener("abort", abortChunks)
+  }
+  await persisting
+  setUpload("speed", 0)
+
   // Wait for hash calculation
-  setUpload("msg", "Verifying local hash...")
+  const hashProgress = setInterval(() => {
+    const percent = ((hashedBytes / file.size) * 100).toFixed(0)
+    setUpload("msg", `Verifying local hash... ${percent}%`)
+  }, 500)
   const localHash = await hashPromise
+  clearInterval(hashProgress)
+  signal?.throwIfAborted()
   console.log(
     `[Chunked Upload] All chunks done. Local xxHash64: ${localHash}. Requesting merge...`,
   )
@@ -214,35 +372,51 @@ async function chunkedUpload(
   setUpload("msg", "Merging chunks...")
   setUpload("speed", 0)
 
-  const mergeResp: any = await r.post("/fs/put/chunk/merge", {
-    upload_id: uploadId,
-    path: uploadPath,
-    total_chunks: totalChunks,
-    as_task: true, // Always use async task for chunked uploads to prevent timeout
-    overwrite: overwrite,
-    last_modified: file.lastModified,
-    hash: localHash, // Send local hash for verification
-  })
+  const mergeResp: any = await r.post(
+    "/fs/put/chunk/merge",
+    {
+      upload_id: uploadId,
+      path: uploadPath,
+      total_chunks: plan.length,
+      chunk_sizes: plan,
+      as_task: true, // Always use async task for chunked uploads to prevent timeout
+      overwrite: overwrite,
+      last_modified: file.lastModified,
+      hash: localHash, // Send local hash for verification
+    },
+    { signal },
+  )
+  signal?.throwIfAborted()
 
-  if (mergeResp.code === 200) {
-    // Check if response contains remote file hash
-    const remoteHash = mergeResp.data?.hash
-    if (remoteHash) {
-      console.log(`[Chunked Upload] Merge Success. Remote Hash:`, remoteHash)
-      if (remoteHash.xxh64 && localHash && remoteHash.xxh64 !== localHash) {
-        console.error(
-          `[Chunked Upload] CRITICAL: Hash Mismatch! Local: ${localHash}, Remote: ${remoteHash.xxh64}`,
-        )
-        // Optionally throw error here, but for now just log critical error
-      }
-    }
-    setUpload("progress", 100)
-    setUpload("msg", "")
-    return
-  } else {
+  if (mergeResp.code !== 200) {
     console.error(`[Chunked Upload] Merge failed: ${mergeResp.message}`)
     throw new Error(mergeResp.message)
   }
+
+  // Background merges report the hash of the merged file once done
+  let remoteHash = mergeResp.data?.hash
+  if (!remoteHash && mergeResp.data?.task) {
+    setUpload("msg", "Verifying merged file...")
+    const result = await waitForMerge(uploadId, signal)
+    remoteHash = result?.hash
+    if (result?.status === "error") {
+      setUpload("verify", verifyHash(localHash, remoteHash?.xxh64))
+      throw new Error(result.error)
+    }
+  }
+  console.log(`[Chunked Upload] Merge Success. Remote Hash:`, remoteHash)
+  const verify = verifyHash(localHash, remoteHash?.xxh64)
+  setUpload("verify", verify)
+  if (verify === "mismatch") {
+    console.error(
+      `[Chunked Upload] CRITICAL: Hash Mismatch! Local: ${localHash}, Remote: ${remoteHash.xxh64}`,
+    )
+    throw new Error(
+      `Hash mismatch: Client=${localHash}, Server=${remoteHash.xxh64}`,
+    )
+  }
+  setUpload("progress", 100)
+  setUpload("msg", "")
 }
 
 // Direct upload for small files (original logic)
@@ -253,6 +427,7 @@ async function directUpload(
   asTask: boolean,
   overwrite: boolean,
   rapid: boolean,
+  signal?: AbortSignal,
 ): Promise<undefined> {
   let oldTimestamp = new Date().valueOf()
   let oldLoaded = 0
@@ -267,16 +442,17 @@ async function directUpload(
     Overwrite: overwrite.toString(),
   }
   if (rapid) {
-    const { md5, sha1, sha256 } = await calculateHash(file)
-    headers["X-File-Md5"] = md5
-    headers["X-File-Sha1"] = sha1
-    headers["X-File-Sha256"] = sha256
+    Object.assign(headers, await rapidUploadHeaders(file, setUpload, signal))
+    oldTimestamp = new Date().valueOf()
   }
-  const resp: EmptyResp = await r.put("/fs/form", form, {
+  await waitToSend(file.size, signal)
+  const resp: Resp<{ rapid?: boolean }> = await r.put("/fs/form", form, {
     headers: headers,
+    signal,
     onUploadProgress: (progressEvent: any) => {
       if (progressEvent.total) {
-        const complete = ((progressEvent.loaded / progressEvent.total) * 100) | 0
+        const complete =
+          ((progressEvent.loaded / progressEvent.total) * 100) | 0
         setUpload("progress", complete)
 
         const timestamp = new Date().valueOf()
@@ -284,10 +460,7 @@ async function directUpload(
         if (duration > 1) {
           const loaded = progressEvent.loaded - oldLoaded
           const speed = loaded / duration
-          const remain = progressEvent.total - progressEvent.loaded
-          const remainTime = remain / speed
           setUpload("speed", speed)
-          console.log(remainTime)
 
           oldTimestamp = timestamp
           oldLoaded = progressEvent.loaded
@@ -299,7 +472,11 @@ async function directUpload(
       }
     },
   })
+  signal?.throwIfAborted()
   if (resp.code === 200) {
+    if (rapid && resp.data?.rapid !== undefined) {
+      setUpload("rapid", resp.data.rapid ? "hit" : "miss")
+    }
     return
   } else {
     throw new Error(resp.message)
@@ -313,13 +490,15 @@ export const FormUpload: Upload = async (
   asTask = false,
   overwrite = false,
   rapid = false,
+  signal?: AbortSignal,
 ): Promise<undefined> => {
   const chunkSize = getChunkSize()
   const fileSizeMB = (file.size / 1024 / 1024).toFixed(2)
   const chunkSizeMB = (chunkSize / 1024 / 1024).toFixed(0)
 
-  // Use chunked upload for large files
-  if (file.size > chunkSize) {
+  // Use chunked upload for large files, and while a bandwidth cap is set
+  // for any file that would take long to send in one request
+  if (file.size > chunkSize || file.size > cappedRequestSize()) {
     console.log(
       `[Form Upload] ${file.name} (${fileSizeMB} MB) > ${chunkSizeMB} MB threshold, using chunked upload`,
     )
@@ -330,11 +509,21 @@ export const FormUpload: Upload = async (
       asTask,
       overwrite,
       chunkSize,
+      signal,
     )
   }
 
   // Use direct upload for small files
-  console.log(`[Form Upload] ${file.name} (${fileSizeMB} MB) using direct upload`)
-  return directUpload(uploadPath, file, setUpload, asTask, overwrite, rapid)
+  console.log(
+    `[Form Upload] ${file.name} (${fileSizeMB} MB) using direct upload`,
+  )
+  return directUpload(
+    uploadPath,
+    file,
+    setUpload,
+    asTask,
+    overwrite,
+    rapid,
+    signal,
+  )
 }
- 
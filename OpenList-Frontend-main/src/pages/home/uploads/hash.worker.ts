@@ -0,0 +1,64 @@
+// Hashes files off the main thread, see hash_pool.ts for the other end
+import { createMD5, createSHA1, createSHA256, createXXHash64 } from "hash-wasm"
+import { buf as crc32 } from "crc-32"
+import type { HashAlgorithm, HashRequest, HashResponse } from "./hash_pool"
+
+// Minimum interval between progress messages
+const PROGRESS_INTERVAL = 100
+
+const creators = {
+  xxh64: createXXHash64,
+  md5: createMD5,
+  sha1: createSHA1,
+  sha256: createSHA256,
+}
+
+const post = (msg: HashResponse) => self.postMessage(msg)
+
+const hashFile = async (
+  id: number,
+  file: Blob,
+  algorithms: HashAlgorithm[],
+) => {
+  const hashers = await Promise.all(algorithms.map((alg) => creators[alg]()))
+  const reader = file.stream().getReader()
+  let loaded = 0
+  let lastReport = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    // every hasher is fed from the same read, the file is read only once
+    for (const hasher of hashers) {
+      hasher.update(value)
+    }
+    loaded += value.byteLength
+    const now = Date.now()
+    if (now - lastReport > PROGRESS_INTERVAL) {
+      lastReport = now
+      post({ id, type: "progress", loaded })
+    }
+  }
+  const result: Partial<Record<HashAlgorithm, string>> = {}
+  algorithms.forEach((alg, i) => (result[alg] = hashers[i].digest("hex")))
+  return result
+}
+
+const hashCRC32 = async (blob: Blob) => {
+  const buffer = await blob.arrayBuffer()
+  return {
+    crc32: (crc32(new Uint8Array(buffer)) >>> 0).toString(16).padStart(8, "0"),
+  }
+}
+
+self.addEventListener("message", async (e: MessageEvent<HashRequest>) => {
+  const req = e.data
+  try {
+    const result =
+      req.type === "crc32"
+        ? await hashCRC32(req.blob)
+        : await hashFile(req.id, req.blob, req.algorithms)
+    post({ id: req.id, type: "done", result })
+  } catch (err: any) {
+    post({ id: req.id, type: "error", message: err?.message ?? String(err) })
+  }
+})
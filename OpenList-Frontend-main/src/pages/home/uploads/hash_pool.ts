@@ -0,0 +1,145 @@
+// A small pool of workers hashing files and chunks, so that hashing runs in
+// parallel with the network transfer and never blocks the UI
+
+export type HashAlgorithm = "xxh64" | "md5" | "sha1" | "sha256"
+
+export type HashRequest =
+  | { id: number; type: "file"; blob: Blob; algorithms: HashAlgorithm[] }
+  | { id: number; type: "crc32"; blob: Blob }
+
+export type HashResponse =
+  | { id: number; type: "progress"; loaded: number }
+  | { id: number; type: "done"; result: Record<string, string> }
+  | { id: number; type: "error"; message: string }
+
+export interface HashOptions {
+  signal?: AbortSignal
+  // called with the number of bytes hashed so far
+  onProgress?: (loaded: number) => void
+}
+
+const POOL_SIZE = Math.max(2, Math.min(navigator.hardwareConcurrency || 2, 4))
+
+interface Job {
+  req: HashRequest
+  onProgress?: (loaded: number) => void
+  resolve: (result: Record<string, string>) => void
+  reject: (reason: any) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  job?: Job
+}
+
+const workers: PoolWorker[] = []
+const queue: Job[] = []
+let nextId = 0
+
+const spawn = (): PoolWorker => {
+  const pw: PoolWorker = {
+    worker: new Worker(new URL("./hash.worker.ts", import.meta.url), {
+      type: "module",
+    }),
+  }
+  pw.worker.addEventListener("message", (e: MessageEvent<HashResponse>) => {
+    const job = pw.job
+    const msg = e.data
+    if (!job || job.req.id !== msg.id) return
+    if (msg.type === "progress") {
+      job.onProgress?.(msg.loaded)
+      return
+    }
+    pw.job = undefined
+    schedule()
+    if (msg.type === "done") {
+      job.resolve(msg.result)
+    } else {
+      job.reject(new Error(msg.message))
+    }
+  })
+  pw.worker.addEventListener("error", (e) => {
+    const job = pw.job
+    discard(pw)
+    job?.reject(new Error(e.message))
+  })
+  return pw
+}
+
+// Stop a worker for good, the next job gets a fresh one
+const discard = (pw: PoolWorker) => {
+  pw.worker.terminate()
+  const index = workers.indexOf(pw)
+  if (index >= 0) workers.splice(index, 1)
+  schedule()
+}
+
+const schedule = () => {
+  while (queue.length > 0) {
+    // Whole files may take minutes, always keep a worker for chunks
+    const busy = workers.filter((w) => w.job?.req.type === "file").length
+    const index = queue.findIndex(
+      (job) => job.req.type === "crc32" || busy < POOL_SIZE - 1,
+    )
+    if (index < 0) return
+    let pw = workers.find((w) => !w.job)
+    if (!pw) {
+      if (workers.length >= POOL_SIZE) return
+      pw = spawn()
+      workers.push(pw)
+    }
+    const [job] = queue.splice(index, 1)
+    pw.job = job
+    pw.worker.postMessage(job.req)
+  }
+}
+
+const run = (req: HashRequest, { signal, onProgress }: HashOptions) =>
+  new Promise<Record<string, string>>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    // A running job can't be interrupted, its worker is replaced instead
+    const onAbort = () => {
+      const queued = queue.indexOf(job)
+      if (queued >= 0) {
+        queue.splice(queued, 1)
+      } else {
+        const pw = workers.find((w) => w.job === job)
+        pw && discard(pw)
+      }
+      reject(signal!.reason)
+    }
+    const done = () => signal?.removeEventListener("abort", onAbort)
+    const job: Job = {
+      req,
+      onProgress,
+      resolve: (result) => {
+        done()
+        resolve(result)
+      },
+      reject: (reason) => {
+        done()
+        reject(reason)
+      },
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+    queue.push(job)
+    schedule()
+  })
+
+// Hash a whole file with every given algorithm in a single pass
+export const hashFile = (
+  file: Blob,
+  algorithms: HashAlgorithm[],
+  options: HashOptions = {},
+) =>
+  run(
+    { id: nextId++, type: "file", blob: file, algorithms },
+    options,
+  ) as Promise<Partial<Record<HashAlgorithm, string>>>
+
+// CRC32 of a chunk as 8 hex digits
+export const hashCRC32 = async (blob: Blob, signal?: AbortSignal) =>
+  (await run({ id: nextId++, type: "crc32", blob }, { signal })).crc32
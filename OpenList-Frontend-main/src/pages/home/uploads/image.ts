@@ -0,0 +1,163 @@
+import { useCDN } from "~/hooks"
+import { uploadConfig } from "~/store"
+import { pathBase, pathDir } from "~/utils"
+import { decodeHeif } from "../previews/libheif"
+import { readExif, writeExif } from "./exif"
+import { ImageTransform, QueuedUpload } from "./types"
+
+// Images are downscaled and re-encoded in the browser before they are sent.
+// The target name is settled when the file is added, so that conflicts are
+// checked against it, the conversion itself runs when the upload starts.
+
+const FORMAT_TYPES = {
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+}
+// Formats a canvas writes back, others are only converted to JPEG or WebP
+const ENCODABLE = ["image/jpeg", "image/png", "image/webp"]
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+}
+
+export const isHeif = (file: File) =>
+  /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name)
+
+// Type the file is converted to, undefined when it is sent as it is
+export const outputType = (file: File, options: ImageTransform) => {
+  const heif = isHeif(file)
+  if (!heif && !ENCODABLE.includes(file.type)) return
+  if (options.format !== "original") return FORMAT_TYPES[options.format]
+  if (heif) return options.heicToJpeg ? FORMAT_TYPES.jpeg : undefined
+  return options.maxEdge > 0 ? file.type : undefined
+}
+
+const withExtension = (name: string, type: string) => {
+  const ext = EXTENSIONS[type]
+  const current = name.match(/\.([^.]+)$/)?.[1]
+  // .jpeg stays .jpeg
+  if (
+    current?.toLowerCase() === ext ||
+    (ext === "jpg" && current?.toLowerCase() === "jpeg")
+  ) {
+    return name
+  }
+  return `${current ? name.slice(0, -current.length - 1) : name}.${ext}`
+}
+
+const withSuffix = (name: string, suffix: string) => {
+  const dot = name.lastIndexOf(".")
+  return dot > 0
+    ? `${name.slice(0, dot)}${suffix}${name.slice(dot)}`
+    : `${name}${suffix}`
+}
+
+const renamed = (path: string, name: string) => {
+  const dir = pathDir(path)
+  return dir ? `${dir}/${name}` : name
+}
+
+// Uploads of an added file under the image options of the dialog: the
+// converted copy, and the source as well when it is kept
+export const planImageUploads = (item: QueuedUpload): QueuedUpload[] => {
+  const { enabled, keepOriginal, ...options } = uploadConfig.image
+  if (!enabled) return [item]
+  const type = outputType(item.file, options)
+  if (!type) return [item]
+  const source = pathBase(item.path)!
+  let name = withExtension(source, type)
+  // next to the source the copy needs a name of its own
+  if (keepOriginal && name === source) {
+    name = withSuffix(name, " (resized)")
+  }
+  const converted: QueuedUpload = {
+    ...item,
+    path: renamed(item.path, name),
+    uploadPath: renamed(item.uploadPath, name),
+    transform: options,
+  }
+  return keepOriginal ? [item, converted] : [converted]
+}
+
+// Images are converted one at a time, a decoded 48 MP photo alone takes
+// about 200 MB
+let queue: Promise<unknown> = Promise.resolve()
+const oneAtATime = <T>(fn: () => Promise<T>) => {
+  const res = queue.then(fn)
+  queue = res.catch(() => {})
+  return res
+}
+
+const decode = async (file: File, buffer?: ArrayBuffer) => {
+  if (!isHeif(file)) {
+    // rotated as the EXIF orientation says
+    return createImageBitmap(file, { imageOrientation: "from-image" })
+  }
+  const { libHeifPath } = useCDN()
+  return createImageBitmap(await decodeHeif(libHeifPath(), buffer!))
+}
+
+const encode = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error(`Encoding ${type} failed`)),
+      type,
+      quality / 100,
+    ),
+  )
+
+// The converted file, or the file itself when converting gains nothing
+export const transformImage = (
+  file: File,
+  name: string,
+  options: ImageTransform,
+  signal?: AbortSignal,
+) =>
+  oneAtATime(async () => {
+    signal?.throwIfAborted()
+    const type = outputType(file, options)
+    if (!type) return file
+    const heif = isHeif(file)
+    const buffer =
+      heif || options.keepExif ? await file.arrayBuffer() : undefined
+    const bitmap = await decode(file, buffer)
+    const scale =
+      options.maxEdge > 0
+        ? Math.min(1, options.maxEdge / Math.max(bitmap.width, bitmap.height))
+        : 1
+    // already small enough, and the metadata is kept anyway
+    if (scale === 1 && type === file.type && options.keepExif) {
+      bitmap.close()
+      return file
+    }
+    const width = Math.max(1, Math.round(bitmap.width * scale))
+    const height = Math.max(1, Math.round(bitmap.height * scale))
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext("2d")!
+    ctx.imageSmoothingQuality = "high"
+    // JPEG has no transparency, it would turn black
+    if (type === "image/jpeg") {
+      ctx.fillStyle = "#fff"
+      ctx.fillRect(0, 0, width, height)
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height)
+    bitmap.close()
+    let blob = await encode(canvas, type, options.quality)
+    // free the pixels right away rather than on collection
+    canvas.width = 0
+    signal?.throwIfAborted()
+    const exif =
+      options.keepExif && type !== "image/png"
+        ? readExif(new Uint8Array(buffer!), heif)
+        : undefined
+    if (exif) {
+      const bytes = new Uint8Array(await blob.arrayBuffer())
+      const withExif = writeExif(bytes, type, exif, width, height)
+      if (withExif) blob = new Blob([withExif], { type })
+    }
+    return new File([blob], name, { type, lastModified: file.lastModified })
+  })
@@ -0,0 +1,514 @@
+import { createEffect, createRoot, createSignal } from "solid-js"
+import { createStore, produce } from "solid-js/store"
+import { encryptionKeyOf, uploadConfig } from "~/store"
+import {
+  bus,
+  EncryptedFile,
+  encryptedFile,
+  fsMkdir,
+  pathBase,
+  pathDir,
+} from "~/utils"
+import { getUploader, getUploads } from "./uploads"
+import { EncryptedStreamUpload } from "./stream"
+import { QueuedFolder, QueuedUpload, Status, UploadFileProps } from "./types"
+import { File2Upload } from "./util"
+import { inUploadWindow } from "./bandwidth"
+import { transformImage } from "./image"
+import {
+  handleOf,
+  listPersistedUploads,
+  removePersistedUpload,
+  savePersistedUpload,
+  updatePersistedUpload,
+} from "./persist"
+
+// The upload manager runs every upload of the session, independent of the
+// upload dialog, so uploads keep going while browsing other folders.
+// Rows are keyed by the full remote path.
+
+// Files uploaded at the same time, across all batches
+const MAX_RUNNING = 3
+// Re-uploads of a file whose stored hash didn't match
+const MAX_REUPLOADS = 2
+// How often a queue held back by the upload window checks it again
+const WINDOW_RECHECK_MS = 60 * 1000
+// Throughput is sampled this often for the sparkline, the last SAMPLES kept
+const SAMPLE_INTERVAL_MS = 1000
+const SAMPLES = 60
+
+// Statuses an upload can't leave without user action
+export const finished: Status[] = ["success", "error", "canceled"]
+
+const [uploadStore, setUploadStore] = createStore<{
+  uploads: UploadFileProps[]
+}>({
+  uploads: [],
+})
+export { uploadStore }
+
+// Upload method picked in the dialog, pasted files use it as well
+const [uploaderName, setUploaderName] = createSignal(getUploads()[0].name)
+export { uploaderName, setUploaderName }
+
+// Row index by remote path, rows are updated on every progress event and
+// a folder upload may have tens of thousands of them. Added rows extend the
+// index, it is only rebuilt when rows are removed.
+let rowIndex = new Map<string, number>()
+const addRows = (rows: UploadFileProps[]) => {
+  setUploadStore(
+    produce((store) => {
+      for (const row of rows) {
+        // a path added again takes over its row
+        const i = rowIndex.get(row.upload_path)
+        if (i !== undefined) {
+          store.uploads[i] = row
+        } else {
+          rowIndex.set(row.upload_path, store.uploads.length)
+          store.uploads.push(row)
+        }
+      }
+    }),
+  )
+}
+const removeRows = (remove: (upload: UploadFileProps) => boolean) => {
+  setUploadStore("uploads", (uploads) =>
+    uploads.filter((upload) => !remove(upload)),
+  )
+  rowIndex = new Map(
+    uploadStore.uploads.map((upload, i) => [upload.upload_path, i]),
+  )
+}
+
+export const setUpload = (
+  uploadPath: string,
+  key: keyof UploadFileProps,
+  value: any,
+) => {
+  const i = rowIndex.get(uploadPath)
+  if (i !== undefined) {
+    setUploadStore("uploads", i, key, value)
+  }
+}
+const rowOf = (uploadPath: string) => {
+  const i = rowIndex.get(uploadPath)
+  return i === undefined ? undefined : uploadStore.uploads[i]
+}
+
+export const allDone = () =>
+  uploadStore.uploads.every(({ status }) => finished.includes(status))
+
+export const clearFinished = () => {
+  removeRows(({ status }) => finished.includes(status))
+  if (uploadStore.uploads.length === 0) {
+    setBatch(emptyBatch())
+  }
+}
+
+// A batch runs from the first upload added to an idle list until every
+// upload in the list is finished, later additions join the running batch
+export interface Batch {
+  started?: number
+  finished?: number
+  // files left out by the filters or the conflict prompt
+  skipped: number
+  skippedBytes: number
+  // overall throughput, one sample per SAMPLE_INTERVAL_MS
+  samples: number[]
+}
+const emptyBatch = (): Batch => ({ skipped: 0, skippedBytes: 0, samples: [] })
+const [batch, setBatch] = createStore<Batch>(emptyBatch())
+export { batch }
+
+let sampler: ReturnType<typeof setInterval> | undefined
+const startSampler = () => {
+  clearInterval(sampler)
+  sampler = setInterval(() => {
+    setBatch("samples", (samples) =>
+      [...samples, uploadSummary().speed].slice(-SAMPLES),
+    )
+  }, SAMPLE_INTERVAL_MS)
+}
+const beginBatch = () => {
+  if (batch.started && !batch.finished) return
+  setBatch({ ...emptyBatch(), started: Date.now() })
+  startSampler()
+}
+createRoot(() => {
+  createEffect(() => {
+    if (uploadStore.uploads.length === 0 || !allDone()) return
+    if (batch.started && !batch.finished) {
+      clearInterval(sampler)
+      setBatch("finished", Date.now())
+    }
+  })
+})
+
+// Remote paths of the file rows in one of the given statuses
+export const pathsWith = (statuses: Status[]) =>
+  uploadStore.uploads
+    .filter(({ status, folder }) => !folder && statuses.includes(status))
+    .map(({ upload_path }) => upload_path)
+
+// Let the open folder refresh when something lands in it
+const uploaded = (uploadPath: string) => {
+  bus.emit("uploaded", pathDir(uploadPath) || "/")
+}
+
+// Queued uploads and the controllers of the running ones, by remote path
+const queuedUploads = new Map<string, QueuedUpload>()
+const controllers = new Map<string, AbortController>()
+// Automatic re-uploads after a hash mismatch, by remote path
+const reuploads = new Map<string, number>()
+
+const shouldReupload = (uploadPath: string) =>
+  uploadConfig.reuploadOnMismatch &&
+  rowOf(uploadPath)?.verify === "mismatch" &&
+  (reuploads.get(uploadPath) ?? 0) < MAX_REUPLOADS
+
+// Convert an image before it is sent and set up the encryption of a file,
+// which is encrypted chunk by chunk while it is sent. The result replaces
+// the source for retries within the session. It never matches the
+// persisted size of its source, so after a reload it is prepared and sent
+// anew.
+const prepare = async (
+  item: QueuedUpload,
+  set: (key: keyof UploadFileProps, value: any) => void,
+  signal: AbortSignal,
+) => {
+  if (!item.transform && !item.encrypt) return item
+  let file = item.file
+  if (item.transform) {
+    set("status", "processing")
+    file = await transformImage(
+      file,
+      pathBase(item.uploadPath)!,
+      item.transform,
+      signal,
+    )
+    set("original_size", item.file.size)
+  }
+  let encrypted: EncryptedFile | undefined
+  if (item.encrypt) {
+    const key = encryptionKeyOf(pathDir(item.uploadPath))
+    if (!key) {
+      throw new Error("Unlock the folder to upload encrypted files")
+    }
+    encrypted = encryptedFile(file, await key)
+  }
+  set("size", encrypted?.size ?? file.size)
+  set("status", "uploading")
+  const prepared = {
+    ...item,
+    file,
+    transform: undefined,
+    encrypt: false,
+    encrypted,
+  }
+  queuedUploads.set(item.uploadPath, prepared)
+  return prepared
+}
+
+const handleFile = async (item: QueuedUpload): Promise<void> => {
+  const uploadPath = item.uploadPath
+  queuedUploads.set(uploadPath, item)
+  // paused or canceled before it got its turn
+  if (["paused", "canceled"].includes(rowOf(uploadPath)?.status!)) return
+  const controller = new AbortController()
+  controllers.set(uploadPath, controller)
+  const set = (key: keyof UploadFileProps, value: any) =>
+    setUpload(uploadPath, key, value)
+  set("status", "uploading")
+  set("msg", "")
+  set("verify", undefined)
+  set("rapid", undefined)
+  set("method", undefined)
+  let prepared = item
+  try {
+    const err = await prepare(item, set, controller.signal)
+      .then((res) => {
+        prepared = res
+        if (res.encrypted) {
+          return EncryptedStreamUpload(
+            uploadPath,
+            res.encrypted,
+            set,
+            res.overwrite,
+            controller.signal,
+          )
+        }
+        return getUploader(res.uploader).upload(
+          uploadPath,
+          res.file,
+          set,
+          res.asTask,
+          res.overwrite,
+          res.rapid,
+          controller.signal,
+        )
+      })
+      .catch((err) => err)
+    // paused and resumed before this run settled, the row is the new run's
+    if (controllers.get(uploadPath) !== controller) return
+    if (controller.signal.aborted) {
+      const status: Status = controller.signal.reason
+      set("status", status)
+      set("speed", 0)
+      set("msg", "")
+      if (status === "canceled") {
+        removePersistedUpload(uploadPath)
+      }
+    } else if (!err) {
+      set("status", "success")
+      set("progress", 100)
+      set("speed", 0)
+      removePersistedUpload(uploadPath)
+      uploaded(uploadPath)
+    } else if (shouldReupload(uploadPath)) {
+      // The stored file is corrupt, send the whole file again
+      const attempts = (reuploads.get(uploadPath) ?? 0) + 1
+      reuploads.set(uploadPath, attempts)
+      console.warn(
+        `[Upload] Re-uploading ${uploadPath} (${attempts}) after ${err}`,
+      )
+      await updatePersistedUpload(uploadPath, {
+        chunk_sizes: [],
+        chunk_index: 0,
+        offset: 0,
+        overwrite: true,
+      })
+      set("progress", 0)
+      return await handleFile({ ...prepared, overwrite: true })
+    } else {
+      set("status", "error")
+      set("speed", 0)
+      set("msg", err.message)
+    }
+  } catch (e: any) {
+    console.error(e)
+    if (controllers.get(uploadPath) === controller) {
+      set("status", "error")
+      set("msg", e.message)
+    }
+  } finally {
+    if (controllers.get(uploadPath) === controller) {
+      controllers.delete(uploadPath)
+    }
+  }
+}
+
+// Files wait here until one of the MAX_RUNNING slots is free
+const waiting: QueuedUpload[] = []
+let running = 0
+let windowTimer: ReturnType<typeof setTimeout> | undefined
+const pump = () => {
+  clearTimeout(windowTimer)
+  // outside the upload window files keep waiting, running ones hold
+  // before their next request, see waitToSend
+  if (waiting.length > 0 && !inUploadWindow()) {
+    windowTimer = setTimeout(pump, WINDOW_RECHECK_MS)
+    return
+  }
+  while (running < MAX_RUNNING && waiting.length > 0) {
+    const item = waiting.shift()!
+    running++
+    handleFile(item).finally(() => {
+      running--
+      pump()
+    })
+  }
+}
+
+// Folders are created one by one, parents first, before any file is sent,
+// so empty folders are kept and concurrent files don't race to create them
+const createFolders = async (folders: QueuedFolder[]) => {
+  for (const folder of folders) {
+    setUpload(folder.uploadPath, "status", "uploading")
+    try {
+      const resp = await fsMkdir(folder.uploadPath)
+      if (resp.code === 200) {
+        setUpload(folder.uploadPath, "status", "success")
+        setUpload(folder.uploadPath, "progress", 100)
+        uploaded(folder.uploadPath)
+      } else {
+        setUpload(folder.uploadPath, "status", "error")
+        setUpload(folder.uploadPath, "msg", resp.message)
+      }
+    } catch (e: any) {
+      setUpload(folder.uploadPath, "status", "error")
+      setUpload(folder.uploadPath, "msg", e.message)
+    }
+  }
+}
+
+// Add rows for a batch and run it, a file already in the list is replaced
+export const startUploads = async (
+  queued: QueuedUpload[],
+  folders: QueuedFolder[] = [],
+  skipped = { files: 0, bytes: 0 },
+) => {
+  if (queued.length === 0 && folders.length === 0) return
+  beginBatch()
+  setBatch("skipped", (n) => n + skipped.files)
+  setBatch("skippedBytes", (n) => n + skipped.bytes)
+  const rows: UploadFileProps[] = [
+    ...folders.map(
+      (folder): UploadFileProps => ({
+        name: pathBase(folder.path)!,
+        path: folder.path,
+        upload_path: folder.uploadPath,
+        size: 0,
+        progress: 0,
+        speed: 0,
+        status: "pending",
+        folder: true,
+      }),
+    ),
+    ...queued.map((item) => ({
+      ...File2Upload(item.file, item.uploadPath),
+      // a converted image is named after its target
+      name: pathBase(item.path)!,
+      path: item.path,
+    })),
+  ]
+  addRows(rows)
+  for (const item of queued) {
+    queuedUploads.set(item.uploadPath, item)
+  }
+  await createFolders(folders)
+  waiting.push(...queued)
+  pump()
+}
+
+// Persisted uploads that are not part of this session, left unfinished by an
+// earlier one
+export const listUnfinishedUploads = async () =>
+  (await listPersistedUploads()).filter((upload) => !rowOf(upload.upload_path))
+
+// Remember a new batch for resuming and start it
+export const addUploads = async (
+  queued: QueuedUpload[],
+  folders: QueuedFolder[] = [],
+  skipped?: { files: number; bytes: number },
+) => {
+  await Promise.all(
+    queued.map((item) =>
+      savePersistedUpload({
+        upload_path: item.uploadPath,
+        path: item.path,
+        name: item.file.name,
+        size: item.file.size,
+        last_modified: item.file.lastModified,
+        uploader: item.uploader,
+        as_task: item.asTask,
+        overwrite: item.overwrite,
+        rapid: item.rapid,
+        transform: item.transform,
+        encrypt: item.encrypt,
+        handle: handleOf(item.file),
+        created: Date.now(),
+      }),
+    ),
+  )
+  await startUploads(queued, folders, skipped)
+}
+
+const stopUpload = (uploadPath: string, status: "paused" | "canceled") => {
+  const controller = controllers.get(uploadPath)
+  if (controller) {
+    controller.abort(status)
+    return
+  }
+  // not started yet, or paused
+  setUpload(uploadPath, "status", status)
+  if (status === "canceled") {
+    removePersistedUpload(uploadPath)
+  }
+}
+export const pauseUpload = (uploadPath: string) =>
+  stopUpload(uploadPath, "paused")
+export const cancelUpload = (uploadPath: string) =>
+  stopUpload(uploadPath, "canceled")
+
+export const resumeUploads = (uploadPaths: string[]) => {
+  const items = uploadPaths
+    .map((uploadPath) => queuedUploads.get(uploadPath))
+    .filter((item): item is QueuedUpload => !!item)
+  for (const item of items) {
+    setUpload(item.uploadPath, "status", "pending")
+  }
+  // retrying files of a finished batch reopens it
+  if (items.length > 0 && batch.finished) {
+    setBatch("finished", undefined)
+    startSampler()
+  }
+  // paused while still waiting for its turn, it keeps its place
+  waiting.push(...items.filter((item) => !waiting.includes(item)))
+  pump()
+}
+
+// Aggregate progress of the files in the list
+export const uploadSummary = () => {
+  let total = 0
+  let done = 0
+  let speed = 0
+  let active = 0
+  for (const upload of uploadStore.uploads) {
+    if (upload.folder || upload.status === "canceled") continue
+    total += upload.size
+    // the progress of a hashing file is the hashing progress, the one of
+    // a file being prepared is the conversion or encryption progress
+    if (upload.status !== "hashing" && upload.status !== "processing") {
+      done += (upload.size * upload.progress) / 100
+    }
+    if (!finished.includes(upload.status) && upload.status !== "paused") {
+      active++
+      speed += upload.speed
+    }
+  }
+  const remaining = total - done
+  const elapsed = batch.started
+    ? ((batch.finished ?? Date.now()) - batch.started) / 1000
+    : 0
+  return {
+    total,
+    done,
+    speed,
+    // bytes per second since the batch started
+    average: elapsed > 0 ? done / elapsed : 0,
+    elapsed,
+    active,
+    progress: total > 0 ? (done / total) * 100 : 100,
+    // seconds, unknown while nothing is moving
+    eta: speed > 0 ? remaining / speed : undefined,
+  }
+}
+
+// Outcome of the batch, for copying or exporting once it is finished
+export const batchReport = () => {
+  const files = uploadStore.uploads.filter((upload) => !upload.folder)
+  const withStatus = (status: Status) =>
+    files.filter((upload) => upload.status === status)
+  const succeeded = withStatus("success")
+  return {
+    started: batch.started && new Date(batch.started).toISOString(),
+    finished: batch.finished && new Date(batch.finished).toISOString(),
+    elapsed: uploadSummary().elapsed,
+    succeeded: succeeded.length,
+    failed: withStatus("error").length,
+    canceled: withStatus("canceled").length,
+    skipped: batch.skipped,
+    bytes: succeeded.reduce((bytes, upload) => bytes + upload.size, 0),
+    skipped_bytes: batch.skippedBytes,
+    files: files.map((upload) => ({
+      path: upload.upload_path,
+      size: upload.size,
+      status: upload.status,
+      method: upload.method,
+      rapid: upload.rapid,
+      verify: upload.verify,
+      msg: upload.msg || undefined,
+    })),
+  }
+}
+export type BatchReport = ReturnType<typeof batchReport>
@@ -0,0 +1,63 @@
+import { createSignal, onCleanup } from "solid-js"
+import { objStore, State, userCan } from "~/store"
+import { bus } from "~/utils"
+
+// Files pasted in the folder view wait here for the upload dialog, which
+// prompts for names and conflicts before handing them to the manager
+const [pastedFiles, setPastedFiles] = createSignal<File[]>([])
+export { pastedFiles, setPastedFiles }
+
+// Browsers name clipboard images, e.g. screenshots, "image.png" or nothing
+const UNNAMED_IMAGE = /^(image\.\w+)?$/i
+
+export const isUnnamedImage = (file: File) =>
+  file.type.startsWith("image/") && UNNAMED_IMAGE.test(file.name)
+
+const pad = (n: number) => n.toString().padStart(2, "0")
+
+// Name suggested for an unnamed image, e.g. "Pasted 2024-05-01 10-20-30.png"
+export const pastedImageName = (file: File, index = 0) => {
+  const d = new Date()
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(
+    d.getDate(),
+  )} ${pad(d.getHours())}-${pad(d.getMinutes())}-${pad(d.getSeconds())}`
+  const ext = file.type.split("/")[1]?.split("+")[0] || "png"
+  return `Pasted ${stamp}${index > 0 ? ` (${index})` : ""}.${ext}`
+}
+
+export const renameFile = (file: File, name: string) =>
+  new File([file], name, { type: file.type, lastModified: file.lastModified })
+
+// Pasted files, folders can't be read from the clipboard and are left out
+const clipboardFiles = (data: DataTransfer) => {
+  const files: File[] = []
+  for (const item of Array.from(data.items)) {
+    if (item.kind !== "file") continue
+    if (item.webkitGetAsEntry?.()?.isDirectory) continue
+    const file = item.getAsFile()
+    if (file) files.push(file)
+  }
+  return files
+}
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+// Ctrl/Cmd+V in a writable folder uploads the clipboard files into it
+export const usePasteUpload = (isShare: () => boolean) => {
+  const onPaste = (e: ClipboardEvent) => {
+    if (!e.clipboardData || isEditable(e.target)) return
+    if (objStore.state !== State.Folder || isShare() || !userCan("write")) {
+      return
+    }
+    const files = clipboardFiles(e.clipboardData)
+    if (files.length === 0) return
+    e.preventDefault()
+    setPastedFiles((pasted) => [...pasted, ...files])
+    bus.emit("tool", "upload")
+  }
+  document.addEventListener("paste", onPaste)
+  onCleanup(() => document.removeEventListener("paste", onPaste))
+}
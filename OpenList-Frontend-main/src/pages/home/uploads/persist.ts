@@ -0,0 +1,150 @@
+import { ImageTransform } from "./types"
+
+// Persist the upload queue in IndexedDB so that unfinished uploads
+// can be resumed after a page reload or browser restart
+
+const DB_NAME = "openlist-uploads"
+const STORE_NAME = "queue"
+
+export interface PersistedUpload {
+  // full remote path of the file, used as the key
+  upload_path: string
+  // path relative to the folder the upload was started in
+  path: string
+  name: string
+  size: number
+  last_modified: number
+  uploader: string
+  as_task: boolean
+  overwrite: boolean
+  rapid: boolean
+  // image conversion, done again when the upload is resumed
+  transform?: ImageTransform
+  // encrypted in the browser, needs its folder unlocked to be resumed
+  encrypt?: boolean
+  // planned chunk sizes and the number of leading chunks acknowledged
+  // by the server (form uploads)
+  chunk_sizes?: number[]
+  chunk_index?: number
+  // bytes acknowledged by the server (stream uploads)
+  offset?: number
+  // only available where the File System Access API is supported
+  handle?: FileSystemFileHandle
+  created: number
+}
+
+let dbPromise: Promise<IDBDatabase> | undefined
+
+const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { keyPath: "upload_path" })
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    dbPromise.catch(() => {
+      dbPromise = undefined
+    })
+  }
+  return dbPromise
+}
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const req = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    req.addEventListener("success", () => resolve(req.result))
+    req.addEventListener("error", () => reject(req.error))
+  })
+}
+
+// Persistence is best effort, uploads must never fail because of it
+const safe = async <T>(fn: () => Promise<T>): Promise<T | undefined> => {
+  if (typeof indexedDB === "undefined") return
+  try {
+    return await fn()
+  } catch (e) {
+    console.warn("[Upload Queue] IndexedDB unavailable:", e)
+  }
+}
+
+export const listPersistedUploads = async () => {
+  const res = await safe(() =>
+    withStore<PersistedUpload[]>("readonly", (s) => s.getAll()),
+  )
+  return (res ?? []).sort((a, b) => a.created - b.created)
+}
+
+export const getPersistedUpload = (uploadPath: string) =>
+  safe(() =>
+    withStore<PersistedUpload | undefined>("readonly", (s) =>
+      s.get(uploadPath),
+    ),
+  )
+
+export const savePersistedUpload = (upload: PersistedUpload) =>
+  safe(() => withStore("readwrite", (s) => s.put(upload)))
+
+// Read and write in one transaction, so concurrent updates don't get lost
+export const updatePersistedUpload = (
+  uploadPath: string,
+  patch: Partial<PersistedUpload>,
+) =>
+  safe(() =>
+    withStore("readwrite", (s) => {
+      const req = s.get(uploadPath)
+      req.addEventListener("success", () => {
+        if (req.result) {
+          s.put({ ...req.result, ...patch })
+        }
+      })
+      return req
+    }),
+  )
+
+export const removePersistedUpload = (uploadPath: string) =>
+  safe(() => withStore("readwrite", (s) => s.delete(uploadPath)))
+
+export const clearPersistedUploads = () =>
+  safe(() => withStore("readwrite", (s) => s.clear()))
+
+// Handles obtained from the File System Access API, looked up when a file
+// is queued so the persisted entry can reopen the file later
+const fileHandles = new WeakMap<File, FileSystemFileHandle>()
+
+export const rememberHandle = (file: File, handle: FileSystemFileHandle) => {
+  fileHandles.set(file, handle)
+}
+
+export const handleOf = (file: File) => fileHandles.get(file)
+
+// Reopen a persisted file from its handle, asking for permission if needed
+export const reopenPersistedFile = async (
+  upload: PersistedUpload,
+): Promise<File | undefined> => {
+  const handle = upload.handle
+  if (!handle) return
+  try {
+    const opts = { mode: "read" } as const
+    if ((await handle.queryPermission?.(opts)) !== "granted") {
+      if ((await handle.requestPermission?.(opts)) !== "granted") return
+    }
+    const file = await handle.getFile()
+    if (
+      file.size !== upload.size ||
+      file.lastModified !== upload.last_modified
+    ) {
+      return
+    }
+    rememberHandle(file, handle)
+    return file
+  } catch (e) {
+    console.warn(`[Upload Queue] Failed to reopen ${upload.path}:`, e)
+  }
+}
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { local } from "~/store"
+import {
+  RequestError,
+  backoff,
+  createRetry,
+  isRetryable,
+  retryAttempts,
+} from "./retry"
+
+// the barrels pull in the whole app, only the local settings are needed
+vi.mock("~/store", () => ({ local: {} as Record<string, string> }))
+vi.mock("~/utils", () => ({}))
+
+describe("RequestError", () => {
+  it.each([undefined, 0, 408, 429, 500, 502, 503])(
+    "retries status %s",
+    (code) => {
+      expect(new RequestError(code, "").retryable).toBe(true)
+    },
+  )
+
+  it.each([400, 401, 403, 404, 409, 413])("fails status %s", (code) => {
+    expect(new RequestError(code, "").retryable).toBe(false)
+  })
+
+  it("retries a chunk corrupted on the way", () => {
+    expect(new RequestError(400, "chunk 3: crc32 mismatch").retryable).toBe(
+      true,
+    )
+  })
+
+  it("treats transport errors as retryable", () => {
+    expect(isRetryable(new TypeError("Failed to fetch"))).toBe(true)
+    expect(isRetryable(new RequestError(403, "forbidden"))).toBe(false)
+  })
+})
+
+describe("retryAttempts", () => {
+  afterEach(() => {
+    delete local["upload_retry_attempts"]
+  })
+
+  it("uses the setting", () => {
+    local["upload_retry_attempts"] = "3"
+    expect(retryAttempts()).toBe(3)
+  })
+
+  it.each([undefined, "", "0", "-1", "many"])(
+    "falls back to the default for %s",
+    (value) => {
+      if (value !== undefined) local["upload_retry_attempts"] = value
+      expect(retryAttempts()).toBe(8)
+    },
+  )
+})
+
+describe("backoff", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("doubles the delay with each attempt", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1)
+    expect([1, 2, 3, 4].map(backoff)).toEqual([1000, 2000, 4000, 8000])
+  })
+
+  it("keeps at least half of the delay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0)
+    expect(backoff(3)).toBe(2000)
+  })
+
+  it("is capped at a minute", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1)
+    expect(backoff(20)).toBe(60 * 1000)
+  })
+})
+
+describe("createRetry", () => {
+  const online = { onLine: true }
+
+  beforeEach(() => {
+    online.onLine = true
+    vi.stubGlobal("navigator", online)
+    vi.useFakeTimers()
+    local["upload_retry_attempts"] = "3"
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    delete local["upload_retry_attempts"]
+  })
+
+  it("waits and counts a retryable failure", async () => {
+    const setUpload = vi.fn()
+    const retry = createRetry("Chunk 1", setUpload)
+    const failed = retry.failed(new RequestError(503, "unavailable"))
+    await vi.advanceTimersByTimeAsync(1000)
+    await failed
+    expect(retry.attempt()).toBe(2)
+    expect(setUpload).toHaveBeenCalledWith(
+      "msg",
+      expect.stringContaining("retrying"),
+    )
+  })
+
+  it("fails after the last attempt", async () => {
+    const retry = createRetry("Chunk 1")
+    for (let i = 1; i < retry.attempts; i++) {
+      const failed = retry.failed(new Error("reset"))
+      await vi.advanceTimersByTimeAsync(60 * 1000)
+      await failed
+    }
+    await expect(retry.failed(new Error("reset"))).rejects.toThrow(
+      "Chunk 1 failed after 3 attempts: reset",
+    )
+  })
+
+  it("fails a fatal error right away", async () => {
+    const err = new RequestError(403, "forbidden")
+    await expect(createRetry("Chunk 1").failed(err)).rejects.toBe(err)
+  })
+
+  it("fails a fatal error while offline", async () => {
+    online.onLine = false
+    const err = new RequestError(404, "not found")
+    await expect(createRetry("Chunk 1").failed(err)).rejects.toBe(err)
+  })
+
+  it("doesn't count the time spent offline", async () => {
+    online.onLine = false
+    const retry = createRetry("Chunk 1")
+    let done = false
+    const failed = retry.failed(new Error("offline")).then(() => (done = true))
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    expect(done).toBe(false)
+    online.onLine = true
+    window.dispatchEvent(new Event("online"))
+    await failed
+    expect(retry.attempt()).toBe(1)
+  })
+
+  it("stops once aborted", async () => {
+    const controller = new AbortController()
+    const retry = createRetry("Chunk 1", undefined, controller.signal)
+    const failed = retry.failed(new Error("reset"))
+    controller.abort(new Error("cancelled"))
+    await expect(failed).rejects.toThrow("cancelled")
+  })
+})
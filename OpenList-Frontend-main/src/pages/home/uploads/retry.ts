@@ -0,0 +1,99 @@
+import { local } from "~/store"
+import { SetUpload } from "./types"
+import { sleep } from "./util"
+
+// Retry policy shared by the chunk loops: exponential backoff with jitter,
+// fatal errors fail right away and time spent offline doesn't count
+
+const DEFAULT_ATTEMPTS = 8
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 60 * 1000
+
+// A failed request, code is the status the server or the transport
+// returned, undefined when the request never got an answer
+export class RequestError extends Error {
+  code?: number
+  retryable: boolean
+  constructor(code?: number, message?: string) {
+    super(`Server returned ${code}: ${message}`)
+    this.code = code
+    // a chunk corrupted on the way is sent again
+    this.retryable =
+      code === undefined ||
+      code === 0 ||
+      code === 408 ||
+      code === 429 ||
+      code >= 500 ||
+      /CRC32 mismatch/i.test(message ?? "")
+  }
+}
+
+// Errors other than RequestError come from the transport, e.g. a dropped
+// connection, and are worth another try
+export const isRetryable = (err: unknown) =>
+  !(err instanceof RequestError) || err.retryable
+
+export const retryAttempts = () => {
+  const attempts = parseInt(local["upload_retry_attempts"])
+  return attempts > 0 ? attempts : DEFAULT_ATTEMPTS
+}
+
+// Delay before the given retry, doubled each time and randomized so that
+// concurrent chunks don't all come back at once
+export const backoff = (attempt: number) => {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1))
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+export const waitOnline = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (navigator.onLine) return resolve()
+    const onAbort = () => {
+      window.removeEventListener("online", onOnline)
+      reject(signal!.reason)
+    }
+    const onOnline = () => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }
+    window.addEventListener("online", onOnline, { once: true })
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+
+// Tracks the attempts of one request, e.g. one chunk
+export const createRetry = (
+  name: string,
+  setUpload?: SetUpload,
+  signal?: AbortSignal,
+) => {
+  const attempts = retryAttempts()
+  let attempt = 1
+  return {
+    attempt: () => attempt,
+    attempts,
+    // Called with the error of a failed attempt: throws when it is fatal or
+    // was the last one, otherwise resolves once the next attempt may start
+    failed: async (err: any) => {
+      signal?.throwIfAborted()
+      // a fatal error stays fatal once back online
+      if (!isRetryable(err)) throw err
+      if (!navigator.onLine) {
+        setUpload?.("msg", "Offline, waiting for the connection...")
+        await waitOnline(signal)
+        return
+      }
+      if (attempt >= attempts) {
+        throw new Error(
+          `${name} failed after ${attempt} attempts: ${err.message}`,
+        )
+      }
+      const delay = backoff(attempt)
+      setUpload?.(
+        "msg",
+        `${name} failed, retrying in ${Math.ceil(delay / 1000)}s`,
+      )
+      await sleep(delay, signal)
+      attempt++
+    },
+  }
+}
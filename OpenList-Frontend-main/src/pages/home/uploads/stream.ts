@@ -1,9 +1,14 @@
-import { password } from "~/store"
+import { password, uploadConfig } from "~/store"
 import { getSetting } from "~/store"
-import { EmptyResp } from "~/types"
-import { r } from "~/utils"
+import { Resp } from "~/types"
+import { EncryptedFile, r } from "~/utils"
 import { SetUpload, Upload } from "./types"
-import { calculateHash } from "./util"
+import { calculateXXHash64, rapidUploadHeaders, verifyHash } from "./util"
+import { getPersistedUpload, updatePersistedUpload } from "./persist"
+import { createChunkSizer } from "./chunk_size"
+import { cappedRequestSize, waitToSend } from "./bandwidth"
+import { createRetry, RequestError } from "./retry"
+import { hashCRC32 } from "./hash_pool"
 
 // Default chunk size: 95MB (below Cloudflare's 100MB limit)
 const DEFAULT_CHUNK_SIZE = 95 * 1024 * 1024
@@ -17,42 +22,116 @@ const getChunkSize = (): number => {
   return DEFAULT_CHUNK_SIZE
 }
 
-// Chunked stream upload for large files
+// Chunked stream upload for large files, and for files encrypted in the
+// browser, whose chunks are encrypted as they are read
 async function chunkedStreamUpload(
   uploadPath: string,
-  file: File,
+  file: File | EncryptedFile,
   setUpload: SetUpload,
   overwrite: boolean,
   chunkSize: number,
+  signal?: AbortSignal,
+  restarted = false,
 ): Promise<undefined> {
+  // A paused upload continues from its last acknowledged byte, as long as
+  // the server still keeps the stream session open
+  const persisted = await getPersistedUpload(uploadPath)
+  const resumeOffset =
+    !restarted && persisted?.size === file.size ? (persisted.offset ?? 0) : 0
+  const sizer = createChunkSizer(chunkSize, uploadConfig.adaptiveChunk)
+
   const totalSize = file.size
-  const totalChunks = Math.ceil(totalSize / chunkSize)
 
   console.log(`[Stream Chunked] Starting: ${file.name}`)
-  console.log(`[Stream Chunked] Size: ${(totalSize / 1024 / 1024).toFixed(2)} MB, Chunks: ${totalChunks}`)
+  console.log(
+    `[Stream Chunked] Size: ${(totalSize / 1024 / 1024).toFixed(2)} MB, Max chunk size: ${(chunkSize / 1024 / 1024).toFixed(0)} MB` +
+      (uploadConfig.adaptiveChunk ? " (adaptive)" : ""),
+  )
 
   // State for speed calculation
-  let totalUploadedBytes = 0
+  let totalUploadedBytes = resumeOffset
   const startTime = Date.now()
   let lastTime = startTime
-  let lastLoaded = 0
+  let lastLoaded = totalUploadedBytes
+
+  // The whole file is hashed alongside the upload, once the server accepted
+  // the first chunk, and compared with the hash of the bytes it received
+  let hashPromise: Promise<string> | undefined
+  let hashedBytes = 0
+  let remoteHash: Record<string, string> | undefined
+
+  // The server session is gone or holds bytes that don't fit, send the
+  // file again from the first byte, once
+  const restart = async () => {
+    if (restarted) {
+      throw new Error("Upload session lost again, giving up")
+    }
+    console.warn(
+      `[Stream Chunked] Session lost, restarting from the first chunk`,
+    )
+    await r.post("/fs/put/stream/abort", { path: uploadPath, total: totalSize })
+    await updatePersistedUpload(uploadPath, { offset: 0 })
+    return chunkedStreamUpload(
+      uploadPath,
+      file,
+      setUpload,
+      overwrite,
+      chunkSize,
+      signal,
+      true,
+    )
+  }
 
-  // Upload each chunk
-  for (let i = 0; i < totalChunks; i++) {
-    const start = i * chunkSize
-    const end = Math.min(start + chunkSize, totalSize)
-    const chunk = file.slice(start, end)  // Blob.slice - no memory copy
-    const chunkRealSize = end - start
+  // Continue from the bytes the server committed, a failed chunk may have
+  // been written in part. False when there is no session to continue.
+  const moveTo = async (received: number) => {
+    if (received > totalSize) return false
+    console.log(
+      `[Stream Chunked] Server committed ${received} bytes, continuing from there`,
+    )
+    totalUploadedBytes = received
+    lastLoaded = received
+    await updatePersistedUpload(uploadPath, { offset: received })
+    return true
+  }
+  const reconcile = async () => {
+    const resp: Resp<{ received: number }> = await r.get(
+      "/fs/put/stream/status",
+      {
+        params: { path: uploadPath, total: totalSize },
+        signal,
+      },
+    )
+    signal?.throwIfAborted()
+    if (resp.code === 404) return false
+    // the offset is unknown, the server will tell on the next chunk
+    if (resp.code !== 200) return true
+    return moveTo(resp.data.received)
+  }
 
-    let attempt = 0
+  // Upload each chunk, the server only needs the ranges to be contiguous so
+  // every chunk (and every retry) may have a different size
+  for (let i = 0; totalUploadedBytes < totalSize; i++) {
+    const retry = createRetry(`Chunk ${i + 1}`, setUpload, signal)
     let success = false
 
-    while (attempt < 3 && !success) {
+    while (!success) {
+      const start = totalUploadedBytes
+      const end = Math.min(start + sizer.next(), totalSize)
+      const chunkRealSize = end - start
       try {
-        attempt++
-        const retryMsg = attempt > 1 ? ` (Retry ${attempt}/3)` : ""
-        setUpload("msg", `Uploading chunk ${i + 1}/${totalChunks}${retryMsg}`)
+        const chunk =
+          file instanceof File
+            ? file.slice(start, end) // Blob.slice - no memory copy
+            : await file.read(start, end, signal)
+        const retryMsg =
+          retry.attempt() > 1
+            ? ` (Retry ${retry.attempt()}/${retry.attempts})`
+            : ""
+        setUpload("msg", `Uploading chunk ${i + 1}${retryMsg}`)
 
+        const chunkCRC32 = await hashCRC32(chunk, signal)
+        await waitToSend(chunkRealSize, signal)
         const chunkStartTime = Date.now()
 
         // PUT request with Content-Range header
@@ -61,10 +140,12 @@ async function chunkedStreamUpload(
             "File-Path": encodeURIComponent(uploadPath),
             "Content-Type": file.type || "application/octet-stream",
             "Content-Range": `bytes ${start}-${end - 1}/${totalSize}`,
+            "X-Chunk-CRC32": chunkCRC32,
             "Last-Modified": file.lastModified,
             Password: password(),
             Overwrite: overwrite.toString(),
           },
+          signal,
           onUploadProgress: (progressEvent: any) => {
             if (progressEvent.total) {
               const currentTotal = totalUploadedBytes + progressEvent.loaded
@@ -80,43 +161,88 @@ async function chunkedStreamUpload(
               }
 
               // Overall progress
-              const overallProgress = ((totalUploadedBytes + progressEvent.loaded) / totalSize) * 100
+              const overallProgress =
+                ((totalUploadedBytes + progressEvent.loaded) / totalSize) * 100
               setUpload("progress", overallProgress)
             }
           },
         })
 
+        signal?.throwIfAborted()
+
+        // The server committed a different offset, e.g. the response to an
+        // earlier chunk was lost, continue from its offset
+        if (resp.code === 409 && resp.data?.received !== undefined) {
+          if (!(await moveTo(resp.data.received))) return await restart()
+          continue
+        }
+
         if (resp.code !== 200) {
-          throw new Error(`Server returned ${resp.code}: ${resp.message}`)
+          throw new RequestError(resp.code, resp.message)
         }
 
+        // the ciphertext is never whole on this side, it stays unverified
+        hashPromise ??= (
+          file instanceof File
+            ? calculateXXHash64(file, signal, (loaded) => {
+                hashedBytes = loaded
+              })
+            : Promise.resolve("")
+        ).catch((err) => {
+          console.warn(`[Stream Chunked] Failed to compute local hash: ${err}`)
+          return ""
+        })
         totalUploadedBytes += chunkRealSize
+        await updatePersistedUpload(uploadPath, { offset: totalUploadedBytes })
         const elapsed = Date.now() - chunkStartTime
         const chunkSpeed = chunkRealSize / (elapsed / 1000)
+        sizer.success(chunkRealSize, elapsed)
 
         console.log(
-          `[Stream Chunked] Chunk ${i + 1}/${totalChunks} done (${(chunkSpeed / 1024 / 1024).toFixed(2)} MB/s)`
+          `[Stream Chunked] Chunk ${i + 1} (${(chunkRealSize / 1024 / 1024).toFixed(2)} MB) done (${(chunkSpeed / 1024 / 1024).toFixed(2)} MB/s), Server CRC: ${resp.data?.crc32}`,
         )
 
         // Check if upload is complete
         if (resp.data?.complete) {
           console.log(`[Stream Chunked] Upload complete!`)
+          remoteHash = resp.data.hash
         }
 
         success = true
       } catch (e: any) {
+        // Paused or canceled by the user, don't retry
+        if (signal?.aborted) throw e
+        sizer.failure()
         console.error(
-          `[Stream Chunked] Chunk ${i + 1} attempt ${attempt} failed: ${e.message}`
+          `[Stream Chunked] Chunk ${i + 1} attempt ${retry.attempt()} failed: ${e.message}`,
         )
-        if (attempt >= 3) {
-          throw new Error(`Chunk ${i + 1} failed after 3 attempts: ${e.message}`)
-        }
-        // Wait 1s before retry
-        await new Promise((r) => setTimeout(r, 1000))
+        // a lost session can't be continued, whatever the error said
+        const sessionLost =
+          totalUploadedBytes > 0 && !(await reconcile().catch(() => true))
+        if (sessionLost) return await restart()
+        await retry.failed(e)
       }
     }
   }
 
+  const hashProgress = setInterval(() => {
+    const percent = ((hashedBytes / totalSize) * 100).toFixed(0)
+    setUpload("msg", `Verifying local hash... ${percent}%`)
+  }, 500)
+  const localHash = await hashPromise
+  clearInterval(hashProgress)
+  signal?.throwIfAborted()
+  const verify = verifyHash(localHash, remoteHash?.xxh64)
+  setUpload("verify", verify)
+  if (verify === "mismatch") {
+    console.error(
+      `[Stream Chunked] CRITICAL: Hash Mismatch! Local: ${localHash}, Remote: ${remoteHash?.xxh64}`,
+    )
+    throw new Error(
+      `Hash mismatch: Client=${localHash}, Server=${remoteHash?.xxh64}`,
+    )
+  }
+
   setUpload("progress", 100)
   setUpload("msg", "")
   console.log(`[Stream Chunked] All chunks uploaded successfully`)
@@ -130,6 +256,7 @@ async function directStreamUpload(
   asTask: boolean,
   overwrite: boolean,
   rapid: boolean,
+  signal?: AbortSignal,
 ): Promise<undefined> {
   let oldTimestamp = new Date().valueOf()
   let oldLoaded = 0
@@ -142,13 +269,13 @@ async function directStreamUpload(
     Overwrite: overwrite.toString(),
   }
   if (rapid) {
-    const { md5, sha1, sha256 } = await calculateHash(file)
-    headers["X-File-Md5"] = md5
-    headers["X-File-Sha1"] = sha1
-    headers["X-File-Sha256"] = sha256
+    Object.assign(headers, await rapidUploadHeaders(file, setUpload, signal))
+    oldTimestamp = new Date().valueOf()
   }
-  const resp: EmptyResp = await r.put("/fs/put", file, {
+  await waitToSend(file.size, signal)
+  const resp: Resp<{ rapid?: boolean }> = await r.put("/fs/put", file, {
     headers: headers,
+    signal,
     onUploadProgress: (progressEvent) => {
       if (progressEvent.total) {
         const complete =
@@ -160,10 +287,7 @@ async function directStreamUpload(
         if (duration > 1) {
           const loaded = progressEvent.loaded - oldLoaded
           const speed = loaded / duration
-          const remain = progressEvent.total - progressEvent.loaded
-          const remainTime = remain / speed
           setUpload("speed", speed)
-          console.log(remainTime)
 
           oldTimestamp = timestamp
           oldLoaded = progressEvent.loaded
@@ -175,13 +299,47 @@ async function directStreamUpload(
       }
     },
   })
+  signal?.throwIfAborted()
   if (resp.code === 200) {
+    if (rapid && resp.data?.rapid !== undefined) {
+      setUpload("rapid", resp.data.rapid ? "hit" : "miss")
+    }
     return
   } else {
     throw new Error(resp.message)
   }
 }
 
+// Encrypted files whose upload already began in this session, see
+// EncryptedStreamUpload
+const startedEncrypted = new WeakSet<EncryptedFile>()
+
+// Files encrypted in the browser always go through the chunked stream
+// upload, whatever method was picked, as no method takes them whole. A new
+// encryption of a file gives other ciphertext, so a server session left by
+// an earlier one, e.g. before a reload, is dropped first.
+export const EncryptedStreamUpload = async (
+  uploadPath: string,
+  file: EncryptedFile,
+  setUpload: SetUpload,
+  overwrite: boolean,
+  signal?: AbortSignal,
+): Promise<undefined> => {
+  if (!startedEncrypted.has(file)) {
+    await r.post("/fs/put/stream/abort", { path: uploadPath, total: file.size })
+    await updatePersistedUpload(uploadPath, { offset: 0 })
+    startedEncrypted.add(file)
+  }
+  return chunkedStreamUpload(
+    uploadPath,
+    file,
+    setUpload,
+    overwrite,
+    getChunkSize(),
+    signal,
+  )
+}
+
 export const StreamUpload: Upload = async (
   uploadPath: string,
   file: File,
@@ -189,18 +347,37 @@ export const StreamUpload: Upload = async (
   asTask = false,
   overwrite = false,
   rapid = false,
+  signal?: AbortSignal,
 ): Promise<undefined> => {
   const chunkSize = getChunkSize()
 
-  // Use chunked upload for large files
-  if (file.size > chunkSize) {
+  // Use chunked upload for large files, and while a bandwidth cap is set
+  // for any file that would take long to send in one request
+  if (file.size > chunkSize || file.size > cappedRequestSize()) {
     console.log(
-      `[Stream Upload] ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB) > ${(chunkSize / 1024 / 1024).toFixed(0)} MB threshold, using chunked stream upload`
+      `[Stream Upload] ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB) > ${(chunkSize / 1024 / 1024).toFixed(0)} MB threshold, using chunked stream upload`,
+    )
+    return chunkedStreamUpload(
+      uploadPath,
+      file,
+      setUpload,
+      overwrite,
+      chunkSize,
+      signal,
     )
-    return chunkedStreamUpload(uploadPath, file, setUpload, overwrite, chunkSize)
   }
 
   // Use direct upload for small files
-  console.log(`[Stream Upload] ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB) using direct stream upload`)
-  return directStreamUpload(uploadPath, file, setUpload, asTask, overwrite, rapid)
+  console.log(
+    `[Stream Upload] ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB) using direct stream upload`,
+  )
+  return directStreamUpload(
+    uploadPath,
+    file,
+    setUpload,
+    asTask,
+    overwrite,
+    rapid,
+    signal,
+  )
 }
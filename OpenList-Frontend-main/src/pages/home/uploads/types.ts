@@ -1,19 +1,56 @@
-type Status = "pending" | "uploading" | "backending" | "success" | "error"
+import { EncryptedFile } from "~/utils"
+
+export type Status =
+  | "pending"
+  | "hashing"
+  | "processing"
+  | "uploading"
+  | "backending"
+  | "success"
+  | "error"
+  | "paused"
+  | "canceled"
+// Outcome of comparing the local xxHash64 with the one of the stored file
+export type Verify = "verified" | "mismatch" | "unverified"
 export interface UploadFileProps {
   name: string
   path: string
+  // full remote path, identifies the row
+  upload_path: string
   size: number
+  // size of the source file when an image was converted before sending
+  original_size?: number
   progress: number
   speed: number
   status: Status
   msg?: string
+  verify?: Verify
+  // whether the storage matched the file by its digests
+  rapid?: "hit" | "miss"
+  // upload method picked by the Auto uploader
+  method?: string
+  // the row stands for creating a folder of a folder upload
+  folder?: boolean
 }
 export const StatusBadge = {
   pending: "neutral",
+  hashing: "info",
+  processing: "info",
   uploading: "info",
   backending: "info",
   success: "success",
   error: "danger",
+  paused: "warning",
+  canceled: "neutral",
+} as const
+export const VerifyBadge = {
+  verified: "success",
+  mismatch: "danger",
+  unverified: "neutral",
+} as const
+export const RapidBadge = {
+  hit: "success",
+  miss: "neutral",
 } as const
 export type SetUpload = (key: keyof UploadFileProps, value: any) => void
 export type Upload = (
@@ -23,4 +60,50 @@ export type Upload = (
   asTask: boolean,
   overwrite: boolean,
   rapid: boolean,
+  signal?: AbortSignal,
 ) => Promise<Error | undefined>
+// A folder created before the files of a folder upload
+export interface QueuedFolder {
+  // path shown in the upload list
+  path: string
+  // full remote path of the folder
+  uploadPath: string
+}
+export interface QueuedUpload {
+  file: File
+  // path shown in the upload list
+  path: string
+  // full remote path the file is uploaded to
+  uploadPath: string
+  uploader: string
+  asTask: boolean
+  overwrite: boolean
+  rapid: boolean
+  // image conversion to run before the upload
+  transform?: ImageTransform
+  // encrypt the file with the key of its unlocked folder
+  encrypt?: boolean
+  // the file set up for encryption, sent in its place
+  encrypted?: EncryptedFile
+}
+// Image options of the upload dialog, a snapshot is taken for every file
+// when it is added
+export interface ImageTransform {
+  // longest edge in pixels, 0 keeps the size
+  maxEdge: number
+  // "original" keeps the format, HEIC is converted as heicToJpeg says
+  format: "original" | "jpeg" | "webp"
+  // 1-100, for JPEG and WebP output
+  quality: number
+  heicToJpeg: boolean
+  keepExif: boolean
+}
+// A file or folder found in what the user picked or dropped, paths are
+// relative to the folder the upload is started in
+export interface PickedFile {
+  file: File
+  path: string
+}
+export type Found = PickedFile | { dir: string }
+// What to do with a file whose name is taken in the target folder
+export type ConflictAction = "skip" | "overwrite" | "rename"
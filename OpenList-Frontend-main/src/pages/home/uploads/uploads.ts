@@ -1,23 +1,139 @@
-import { objStore } from "~/store"
-import { FormUpload } from "./form"
+import { objStore, password } from "~/store"
+import { fsList, pathDir } from "~/utils"
+import { FormUpload, getChunkSize } from "./form"
 import { StreamUpload } from "./stream"
 import { HttpDirectUpload } from "./direct"
 import { Upload } from "./types"
+import { RequestError } from "./retry"
 
 type Uploader = {
   upload: Upload
   name: string
+  // offered by the open folder
   available: () => boolean
+  // offered by the given folder, when it can differ from the open one
+  availableIn?: (dir: string) => Promise<boolean>
+}
+
+// Direct upload tools of the folders uploaded to, the open folder's are
+// only known for it and a batch may go into other folders or storages
+const directUploadTools = new Map<string, Promise<string[]>>()
+const directUploadToolsOf = (dir: string) => {
+  let tools = directUploadTools.get(dir)
+  if (!tools) {
+    tools = fsList(dir, password(), 1, 1).then((resp) => {
+      if (resp.code !== 200) throw new Error(resp.message)
+      return resp.data.direct_upload_tools ?? []
+    })
+    directUploadTools.set(dir, tools)
+    // looked up again next time, e.g. once the folder was created
+    tools.catch(() => directUploadTools.delete(dir))
+  }
+  return tools.catch(() => [] as string[])
+}
+
+// A method that failed this often for a folder is no longer tried first
+const MAX_FAILURES = 2
+
+// Errors no other upload method can get around
+const FATAL_ERRORS = [
+  /file exists/i,
+  /permission/i,
+  /doesn't support upload/i,
+  /hash mismatch/i,
+]
+
+// Retryable failures of each method, by folder
+const failures = new Map<string, number>()
+const failureKey = (dir: string, method: string) => `${dir}|${method}`
+
+const isRetryable = (err: Error) =>
+  !(err instanceof RequestError && [401, 403].includes(err.code!)) &&
+  !FATAL_ERRORS.some((pattern) => pattern.test(err.message))
+
+// Methods in the order Auto tries them for the file: direct to the storage
+// if the folder offers it, then chunked Form for files it would split
+// (concurrent and resumable chunks), Stream for the rest
+const autoChain = async (dir: string, file: File) => {
+  const chain =
+    file.size > getChunkSize()
+      ? ["HTTP Direct", "Form", "Stream"]
+      : ["HTTP Direct", "Stream", "Form"]
+  const uploaders: Uploader[] = []
+  for (const name of chain) {
+    const u = AllUploads.find((u) => u.name === name)!
+    if (await (u.availableIn?.(dir) ?? u.available())) uploaders.push(u)
+  }
+  // methods that kept failing here go last
+  const failing = (u: Uploader) =>
+    (failures.get(failureKey(dir, u.name)) ?? 0) >= MAX_FAILURES
+  return [...uploaders.filter((u) => !failing(u)), ...uploaders.filter(failing)]
+}
+
+// Picks the upload method per file and falls back to the next one when a
+// method fails, the method used is recorded in the row
+const AutoUpload: Upload = async (
+  uploadPath,
+  file,
+  setUpload,
+  asTask,
+  overwrite,
+  rapid,
+  signal,
+) => {
+  const dir = pathDir(uploadPath)
+  let err: Error | undefined
+  for (const [i, uploader] of (await autoChain(dir, file)).entries()) {
+    if (i > 0) {
+      console.warn(
+        `[Auto Upload] ${file.name}: ${err?.message}, falling back to ${uploader.name}`,
+      )
+      setUpload("status", "uploading")
+      setUpload("progress", 0)
+      setUpload("speed", 0)
+      setUpload("msg", "")
+    }
+    setUpload("method", uploader.name)
+    try {
+      err = await uploader.upload(
+        uploadPath,
+        file,
+        setUpload,
+        asTask,
+        overwrite,
+        rapid,
+        signal,
+      )
+    } catch (e: any) {
+      err = e instanceof Error ? e : new Error(e?.message ?? String(e))
+    }
+    const key = failureKey(dir, uploader.name)
+    if (!err) {
+      failures.delete(key)
+      return
+    }
+    if (signal?.aborted) throw err
+    if (!isRetryable(err)) return err
+    failures.set(key, (failures.get(key) ?? 0) + 1)
+  }
+  return err
 }
 
 // All upload methods
 const AllUploads: Uploader[] = [
+  {
+    name: "Auto",
+    upload: AutoUpload,
+    available: () => true,
+  },
   {
     name: "HTTP Direct",
     upload: HttpDirectUpload,
     available: () => {
       return objStore.direct_upload_tools?.includes("HttpDirect") || false
     },
+    availableIn: async (dir) =>
+      (await directUploadToolsOf(dir)).includes("HttpDirect"),
   },
   {
     name: "Stream",
@@ -31,6 +147,10 @@ const AllUploads: Uploader[] = [
   },
 ]
 
+// Look up an upload method by name, whether or not the open folder offers it
+export const getUploader = (name: string) =>
+  AllUploads.find((u) => u.name === name) ?? AllUploads[0]
+
 export const getUploads = (): Pick<Uploader, "name" | "upload">[] => {
   return AllUploads.filter((u) => u.available())
 }
@@ -1,66 +1,113 @@
-import { UploadFileProps } from "./types"
-import { createMD5, createSHA1, createSHA256, createXXHash64 } from "hash-wasm"
+import { Found, PickedFile, SetUpload, UploadFileProps, Verify } from "./types"
+import { hashFile } from "./hash_pool"
+import { pathDir } from "~/utils"
+import { UploadFilter } from "./filter"
+import { rememberHandle } from "./persist"
 
-export const traverseFileTree = async (entry: FileSystemEntry) => {
-  let res: File[] = []
-  const internalProcess = async (entry: FileSystemEntry, path: string) => {
-    const promise = new Promise<{}>((resolve, reject) => {
-      const errorCallback: ErrorCallback = (e) => {
-        console.error(e)
-        reject(e)
-      }
-      if (entry.isFile) {
-        ; (entry as FileSystemFileEntry).file((file) => {
-          const newFile = new File([file], path + file.name, {
-            type: file.type,
-          })
-          res.push(newFile)
-          console.log(newFile)
-          resolve({})
-        }, errorCallback)
-      } else if (entry.isDirectory) {
-        const dirReader = (entry as FileSystemDirectoryEntry).createReader()
-        const readEntries = () => {
-          dirReader.readEntries(async (entries) => {
-            for (let i = 0; i < entries.length; i++) {
-              await internalProcess(entries[i], path + entry.name + "/")
-            }
-            if (entries.length > 0) {
-              readEntries()
-            } else {
-              resolve({})
-            }
+// Walk a dropped folder lazily, every folder is reported before what's in
+// it so that empty ones can be created as well. Folders ignored by the
+// filter are not read at all.
+export async function* walkEntry(
+  entry: FileSystemEntry,
+  filter?: UploadFilter,
+  path = "",
+): AsyncGenerator<Found> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    )
+    yield { file, path: path + file.name }
+    return
+  }
+  if (!entry.isDirectory) return
+  const dir = path + entry.name
+  if (filter?.skipFolder(dir)) return
+  yield { dir }
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  // readEntries returns a part of the entries at a time, e.g. 100 in
+  // Chrome, and an empty array once all of them were read
+  while (true) {
+    const entries = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    )
+    if (entries.length === 0) break
+    for (const child of entries) {
+      yield* walkEntry(child, filter, dir + "/")
+    }
+  }
+}
+
+// Walk a folder picked with showDirectoryPicker, like walkEntry. The file
+// handles are kept, so the files can be reopened to resume.
+export async function* walkDirectoryHandle(
+  handle: FileSystemDirectoryHandle,
+  filter?: UploadFilter,
+  path = "",
+): AsyncGenerator<Found> {
+  const dir = path + handle.name
+  if (filter?.skipFolder(dir)) return
+  yield { dir }
+  for await (const child of handle.values()) {
+    if (child.kind === "file") {
+      const file = await child.getFile()
+      rememberHandle(file, child)
+      yield { file, path: `${dir}/${file.name}` }
+    } else {
+      yield* walkDirectoryHandle(child, filter, dir + "/")
+    }
+  }
+}
 
-            /*  resolve({})
-            /**
-            why? https://stackoverflow.com/questions/3590058/does-html5-allow-drag-drop-upload-of-folders-or-a-folder-tree/53058574#53058574
-            Unfortunately none of the existing answers are completely correct because 
-            readEntries will not necessarily return ALL the (file or directory) entries for a given directory. 
-            This is part of the API specification (see Documentation section below).
-            
-            To actually get all the files, we'll need to call readEntries repeatedly (for each directory we encounter) 
-            until it returns an empty array. If we don't, we will miss some files/sub-directories in a directory 
-            e.g. in Chrome, readEntries will only return at most 100 entries at a time.
-            
-            if (entries.length > 0) {
-              readEntries()
-            }
-            */
-          }, errorCallback)
-        }
-        readEntries()
-      }
-    })
-    await promise
+// Group what is found into batches, so uploads of a large folder start
+// while the rest of it is still being read
+export async function* inBatches(
+  found: AsyncIterable<Found> | Iterable<Found>,
+  size: number,
+) {
+  let files: PickedFile[] = []
+  let dirs: string[] = []
+  for await (const item of found) {
+    if ("dir" in item) {
+      dirs.push(item.dir)
+    } else {
+      files.push(item)
+    }
+    if (files.length + dirs.length >= size) {
+      yield { files, dirs }
+      files = []
+      dirs = []
+    }
+  }
+  if (files.length + dirs.length > 0) {
+    yield { files, dirs }
   }
-  await internalProcess(entry, "")
-  return res
 }
 
-export const File2Upload = (file: File): UploadFileProps => {
+// Every folder needed by the given files plus the given, possibly empty,
+// folders; parents come before their children
+export const folderTree = (files: string[], dirs: string[] = []) => {
+  const all = new Set<string>()
+  const add = (dir: string) => {
+    while (dir && !all.has(dir)) {
+      all.add(dir)
+      dir = pathDir(dir)
+    }
+  }
+  files.forEach((file) => add(pathDir(file)))
+  dirs.forEach(add)
+  return [...all].sort(
+    (a, b) => a.split("/").length - b.split("/").length || a.localeCompare(b),
+  )
+}
+
+export const File2Upload = (
+  file: File,
+  uploadPath: string,
+): UploadFileProps => {
   return {
     name: file.name,
     path: file.webkitRelativePath ? file.webkitRelativePath : file.name,
+    upload_path: uploadPath,
     size: file.size,
     progress: 0,
     speed: 0,
@@ -68,32 +115,66 @@ export const File2Upload = (file: File): UploadFileProps => {
   }
 }
 
-export const calculateXXHash64 = async (file: File) => {
-  const hasher = await createXXHash64()
-  const reader = file.stream().getReader()
+export const calculateXXHash64 = async (
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: (loaded: number) => void,
+) => {
+  const { xxh64 } = await hashFile(file, ["xxh64"], { signal, onProgress })
+  return xxh64!
+}
 
-  const read = async () => {
-    const { done, value } = await reader.read()
-    if (done) {
-      return
-    }
-    hasher.update(value)
-    // Yield to main thread to prevent UI freeze
-    await new Promise((resolve) => setTimeout(resolve, 0))
-    await read()
-  }
+// Compare the local xxHash64 with the one reported by the server, either may
+// be missing when it couldn't be computed
+export const verifyHash = (local?: string, remote?: string): Verify => {
+  if (!local || !remote) return "unverified"
+  return local === remote ? "verified" : "mismatch"
+}
 
-  await read()
-  return hasher.digest("hex")
+// Digests used by storages supporting rapid upload, computed in one pass
+export const calculateHash = async (
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: (loaded: number) => void,
+) => {
+  const { md5, sha1, sha256 } = await hashFile(
+    file,
+    ["md5", "sha1", "sha256"],
+    { signal, onProgress },
+  )
+  return { md5: md5!, sha1: sha1!, sha256: sha256! }
 }
 
-// Keep old signature for compatibility if needed, but we essentially replace it
-export const calculateHash = async (file: File) => {
-  return calculateXXHash64(file).then((xxhash) => ({
-    xxhash,
-    md5: "",
-    sha1: "",
-    sha256: "",
-  }))
+// Hash the file for rapid upload as a separate phase of the upload, the
+// row shows the hashing progress before the transfer starts
+export const rapidUploadHeaders = async (
+  file: File,
+  setUpload: SetUpload,
+  signal?: AbortSignal,
+) => {
+  setUpload("status", "hashing")
+  const { md5, sha1, sha256 } = await calculateHash(file, signal, (loaded) =>
+    setUpload("progress", (loaded / file.size) * 100),
+  )
+  setUpload("status", "uploading")
+  setUpload("progress", 0)
+  return {
+    "X-File-Md5": md5,
+    "X-File-Sha1": sha1,
+    "X-File-Sha256": sha256,
+  }
 }
- 
+
+// Wait the given time, rejects as soon as the upload is paused or canceled
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
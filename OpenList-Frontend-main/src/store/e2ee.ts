@@ -0,0 +1,57 @@
+import { createStore } from "solid-js/store"
+import { deriveE2EEKey, E2EEKey, pathDir } from "~/utils"
+
+// Passphrases of the folders unlocked in this session, by folder path. A
+// folder's passphrase applies to everything below it and is never stored.
+interface FolderKey {
+  passphrase: string
+  // salt of the files already in the folder, new files share their key
+  salt?: Uint8Array
+}
+const [folderKeys, setFolderKeys] = createStore<
+  Record<string, FolderKey | undefined>
+>({})
+
+// Keys new files are encrypted with, by unlocked folder
+const encryptionKeys = new Map<string, Promise<E2EEKey>>()
+
+// The unlocked folder the path is in, the path itself included
+export const unlockedFolderOf = (path: string) => {
+  for (let dir = path; ; dir = pathDir(dir)) {
+    if (folderKeys[dir || "/"]) return dir || "/"
+    if (!dir || dir === "/") return
+  }
+}
+
+export const passphraseOf = (path: string) => {
+  const folder = unlockedFolderOf(path)
+  return folder ? folderKeys[folder]!.passphrase : undefined
+}
+
+export const unlockFolder = (
+  path: string,
+  passphrase: string,
+  salt?: Uint8Array,
+) => {
+  encryptionKeys.delete(path || "/")
+  setFolderKeys(path || "/", { passphrase, salt })
+}
+
+export const lockFolder = (path: string) => {
+  const folder = unlockedFolderOf(path)
+  if (!folder) return
+  encryptionKeys.delete(folder)
+  setFolderKeys(folder, undefined)
+}
+
+export const encryptionKeyOf = (path: string) => {
+  const folder = unlockedFolderOf(path)
+  if (!folder) return
+  let key = encryptionKeys.get(folder)
+  if (!key) {
+    const { passphrase, salt } = folderKeys[folder]!
+    key = deriveE2EEKey(passphrase, salt)
+    encryptionKeys.set(folder, key)
+  }
+  return key
+}
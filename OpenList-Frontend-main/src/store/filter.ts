@@ -0,0 +1,138 @@
+import { createMemo, createSignal } from "solid-js"
+import { createStore } from "solid-js/store"
+import { Obj, ObjType } from "~/types"
+import { bus } from "~/utils"
+
+export type NameMatch = "substring" | "glob" | "regex"
+
+// Filter of the objs of the current folder, it narrows what the layouts
+// show and what is selected without asking the backend
+const emptyFilter = () => ({
+  name: "",
+  match: "substring" as NameMatch,
+  // empty for every type
+  types: [] as ObjType[],
+  // comma separated, without the dots
+  extensions: "",
+  // in MB
+  minSize: "",
+  maxSize: "",
+  // yyyy-mm-dd, both days included
+  from: "",
+  to: "",
+})
+export type FolderFilter = ReturnType<typeof emptyFilter>
+
+const [folderFilter, setFolderFilter] = createStore<FolderFilter>(emptyFilter())
+const [filterOpen, setFilterOpen] = createSignal(false)
+
+export { folderFilter, setFolderFilter, filterOpen, setFilterOpen }
+
+export const resetFolderFilter = () => setFolderFilter(emptyFilter())
+
+// a filter is for the folder it was set in
+let filteredPath = location.pathname
+bus.on("pathname", (path) => {
+  if (path === filteredPath) return
+  filteredPath = path
+  resetFolderFilter()
+})
+
+const globToRegExp = (glob: string) =>
+  new RegExp(
+    "^" +
+      glob
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*")
+        .replace(/\?/g, ".") +
+      "$",
+    "i",
+  )
+
+// The name test, undefined when the pattern isn't a valid regex
+const nameTest = createMemo(() => {
+  const name = folderFilter.name.trim()
+  if (!name) return () => true
+  switch (folderFilter.match) {
+    case "glob": {
+      const reg = globToRegExp(name)
+      return (objName: string) => reg.test(objName)
+    }
+    case "regex": {
+      try {
+        const reg = new RegExp(name, "i")
+        return (objName: string) => reg.test(objName)
+      } catch {
+        return
+      }
+    }
+    default: {
+      const lower = name.toLowerCase()
+      return (objName: string) => objName.toLowerCase().includes(lower)
+    }
+  }
+})
+
+export const filterPatternInvalid = () => !nameTest()
+
+const MB = 1024 * 1024
+const parseSize = (size: string) => {
+  const value = parseFloat(size)
+  return Number.isNaN(value) ? undefined : value * MB
+}
+// local days, the whole of the last one included
+const parseDay = (day: string, end?: boolean) => {
+  if (!day) return
+  const date = new Date(`${day}T00:00:00`)
+  if (Number.isNaN(date.getTime())) return
+  if (end) date.setDate(date.getDate() + 1)
+  return date.getTime()
+}
+
+const objFilter = createMemo(() => {
+  const test = nameTest()
+  const types = [...folderFilter.types]
+  const extensions = folderFilter.extensions
+    .split(",")
+    .map((ext) => ext.trim().replace(/^\./, "").toLowerCase())
+    .filter(Boolean)
+  const minSize = parseSize(folderFilter.minSize)
+  const maxSize = parseSize(folderFilter.maxSize)
+  const from = parseDay(folderFilter.from)
+  const to = parseDay(folderFilter.to, true)
+  const active =
+    !!folderFilter.name.trim() ||
+    types.length > 0 ||
+    extensions.length > 0 ||
+    minSize !== undefined ||
+    maxSize !== undefined ||
+    from !== undefined ||
+    to !== undefined
+  const matches = (obj: Obj) => {
+    // an invalid regex shows everything until it is fixed
+    if (test && !test(obj.name)) return false
+    if (types.length > 0 && !types.includes(obj.type)) return false
+    if (extensions.length > 0) {
+      if (obj.is_dir) return false
+      const dot = obj.name.lastIndexOf(".")
+      const ext = dot > 0 ? obj.name.slice(dot + 1).toLowerCase() : ""
+      if (!extensions.includes(ext)) return false
+    }
+    // folders have no size of their own
+    if (!obj.is_dir) {
+      if (minSize !== undefined && obj.size < minSize) return false
+      if (maxSize !== undefined && obj.size > maxSize) return false
+    }
+    if (from !== undefined || to !== undefined) {
+      const modified = new Date(obj.modified).getTime()
+      if (from !== undefined && modified < from) return false
+      if (to !== undefined && modified >= to) return false
+    }
+    return true
+  }
+  return { active, matches }
+})
+
+export const filterActive = () => objFilter().active
+
+export const objMatchesFilter = (obj: Obj) => objFilter().matches(obj)
@@ -4,3 +4,5 @@ export * from "./user"
 export * from "./local_settings"
 export * from "./history"
 export * from "./archive"
+export * from "./e2ee"
+export * from "./filter"
@@ -77,6 +77,43 @@ export const initialLocalSettings = [
     type: "select",
     options: ["none", "visible"],
   },
+  {
+    key: "upload_ignore_patterns",
+    default: ".DS_Store, Thumbs.db, desktop.ini, node_modules/, .git/",
+  },
+  {
+    key: "upload_max_file_size",
+    default: "0",
+    type: "number",
+  },
+  {
+    key: "upload_allowed_extensions",
+    default: "",
+  },
+  {
+    key: "upload_denied_extensions",
+    default: "",
+  },
+  {
+    key: "upload_bandwidth_limit",
+    default: "0",
+    type: "number",
+  },
+  {
+    key: "upload_bandwidth_unit",
+    default: "mb",
+    type: "select",
+    options: ["kb", "mb"],
+  },
+  {
+    key: "upload_time_window",
+    default: "",
+  },
+  {
+    key: "upload_retry_attempts",
+    default: "8",
+    type: "number",
+  },
 ]
 export type LocalSetting = (typeof initialLocalSettings)[number]
 for (const setting of initialLocalSettings) {
@@ -1,10 +1,11 @@
 import naturalSort from "typescript-natural-sort"
 import { cookieStorage, createStorageSignal } from "@solid-primitives/storage"
-import { createMemo, createSignal } from "solid-js"
+import { createMemo, createSignal, untrack } from "solid-js"
 import { createStore, produce } from "solid-js/store"
 import { Obj, ObjType, StoreObj } from "~/types"
 import { bus, log } from "~/utils"
 import { keyPressed } from "./key-event"
+import { objMatchesFilter } from "./filter"
 import { local } from "./local_settings"
 import { useT } from "~/hooks"
 
@@ -41,7 +42,8 @@ const [objStore, setObjStore] = createStore<
 const setObjs = (objs: Obj[]) => {
   lastChecked.start = -1
   lastChecked.end = -1
-  setObjStore("objs", objs)
+  const order = sortOrder()
+  setObjStore("objs", order ? [...objs].sort(compareObjs(order)) : objs)
   setObjStore("obj", "is_dir", true)
 }
 
@@ -82,17 +84,57 @@ export const ObjStore = {
   setErr: (err: string) => setObjStore("err", err),
 }
 
-export type OrderBy = "name" | "size" | "modified"
+export type OrderBy =
+  | "name"
+  | "size"
+  | "modified"
+  | "created"
+  | "extension"
+  | "type"
+
+export type FolderPlacement = "first" | "last" | "mixed"
+
+export interface SortOrder {
+  orderBy: OrderBy
+  reverse?: boolean
+  // breaks the ties of orderBy
+  thenBy?: OrderBy
+  thenReverse?: boolean
+  folders?: FolderPlacement
+}
+
+const extensionOf = (obj: Obj) => {
+  if (obj.is_dir) return ""
+  const dot = obj.name.lastIndexOf(".")
+  return dot > 0 ? obj.name.slice(dot + 1).toLowerCase() : ""
+}
+
+const comparers: Record<OrderBy, (a: Obj, b: Obj) => number> = {
+  name: (a, b) => naturalSort(a.name, b.name),
+  size: (a, b) => a.size - b.size,
+  modified: (a, b) => Date.parse(a.modified) - Date.parse(b.modified),
+  created: (a, b) => Date.parse(a.created) - Date.parse(b.created),
+  extension: (a, b) => naturalSort(extensionOf(a), extensionOf(b)),
+  type: (a, b) => a.type - b.type,
+}
+
+export const compareObjs = (order: SortOrder) => (a: Obj, b: Obj) => {
+  if (order.folders && order.folders !== "mixed" && a.is_dir !== b.is_dir) {
+    return (a.is_dir ? -1 : 1) * (order.folders === "first" ? 1 : -1)
+  }
+  const first = (order.reverse ? -1 : 1) * (comparers[order.orderBy](a, b) || 0)
+  if (first || !order.thenBy) return first
+  return (order.thenReverse ? -1 : 1) * (comparers[order.thenBy](a, b) || 0)
+}
 
-export const sortObjs = (orderBy: OrderBy, reverse?: boolean) => {
-  log("sort:", orderBy, reverse)
+// Sorts the objs by the order of the current folder, those of a folder
+// without one stay in the order the backend gave
+export const sortObjs = (order = sortOrder()) => {
+  if (!order) return
+  log("sort:", order)
   setObjStore(
     "objs",
-    produce((objs) =>
-      objs.sort((a, b) => {
-        return (reverse ? -1 : 1) * naturalSort(a[orderBy], b[orderBy])
-      }),
-    ),
+    produce((objs) => objs.sort(compareObjs(order))),
   )
 }
 
@@ -101,6 +143,7 @@ export const appendObjs = (objs: Obj[]) => {
     "objs",
     produce((prev) => prev.push(...objs)),
   )
+  sortObjs()
 }
 
 const lastChecked = {
@@ -140,7 +183,9 @@ export const selectIndex = (index: number, checked: boolean, one?: boolean) => {
     const countCheck = Math.abs(index - lastChecked.start)
     const signCheck = Math.sign(index - lastChecked.start)
     for (let i = 0; i <= countCheck; ++i) {
-      setObjStore("objs", lastChecked.start + signCheck * i, { selected: true })
+      const at = lastChecked.start + signCheck * i
+      // the range skips what the filter hides
+      setObjStore("objs", at, { selected: objMatchesFilter(objStore.objs[at]) })
     }
     lastChecked.end = index
   } else {
@@ -155,16 +200,23 @@ export const selectIndex = (index: number, checked: boolean, one?: boolean) => {
   }
 }
 
+// only the objs the filter shows are selected
 export const selectAll = (checked: boolean) => {
-  setObjStore("objs", {}, (obj) => ({ selected: checked }))
+  setObjStore("objs", {}, (obj) => ({
+    selected: checked && objMatchesFilter(obj),
+  }))
 }
 
 export const selectedObjs = () => {
-  return objStore.objs.filter((obj) => obj.selected)
+  return objStore.objs.filter((obj) => obj.selected && objMatchesFilter(obj))
+}
+
+export const shownObjs = () => {
+  return objStore.objs.filter(objMatchesFilter)
 }
 
 export const allChecked = () => {
-  return objStore.objs.length === selectedNum()
+  return shownNum() === selectedNum()
 }
 
 export const oneChecked = () => {
@@ -176,10 +228,11 @@ export const haveSelected = () => {
 }
 
 export const isIndeterminate = () => {
-  return selectedNum() > 0 && selectedNum() < objStore.objs.length
+  return selectedNum() > 0 && selectedNum() < shownNum()
 }
 
 const selectedNum = createMemo(() => selectedObjs().length)
+const shownNum = createMemo(() => shownObjs().length)
 
 export type LayoutType = "list" | "grid" | "image"
 const [pathname, setPathname] = createSignal<string>(location.pathname)
@@ -206,6 +259,46 @@ export const setLayout = (layout: LayoutType) => {
   _setLayout(layout)
 }
 
+// The sort order chosen for a folder, by path like the layout
+const sortRecord: Record<string, SortOrder> = (() => {
+  try {
+    return JSON.parse(localStorage.getItem("sortRecord") || "{}")
+  } catch (e) {
+    return {}
+  }
+})()
+// orders saved by the list header before there was a sortRecord
+const legacySortOrder = (path: string): SortOrder | undefined => {
+  try {
+    const item = localStorage.getItem(`dir_sort_${path}`)
+    return item ? JSON.parse(item) : undefined
+  } catch (e) {
+    return
+  }
+}
+const [sortChanged, setSortChanged] = createSignal(0)
+export const sortOrder = (): SortOrder | undefined => {
+  sortChanged()
+  return sortRecord[pathname()] ?? legacySortOrder(pathname())
+}
+const sameOrder = (a: SortOrder, b?: SortOrder) =>
+  !!b &&
+  a.orderBy === b.orderBy &&
+  !!a.reverse === !!b.reverse &&
+  a.thenBy === b.thenBy &&
+  !!a.thenReverse === !!b.thenReverse &&
+  a.folders === b.folders
+export const setSortOrder = (order: Partial<SortOrder>) => {
+  // called from effects, which must not come to depend on the order they set
+  const current = untrack(sortOrder)
+  const merged = { orderBy: "name", ...current, ...order } as SortOrder
+  if (sameOrder(merged, current)) return
+  sortRecord[pathname()] = merged
+  localStorage.setItem("sortRecord", JSON.stringify(sortRecord))
+  setSortChanged((n) => n + 1)
+  sortObjs(merged)
+}
+
 const [_checkboxOpen, setCheckboxOpen] = createStorageSignal<string>(
   "checkbox-open",
   "false",
@@ -277,4 +370,19 @@ export const [uploadConfig, setUploadConfig] = createStore({
   asTask: false,
   overwrite: false,
   rapid: true,
+  adaptiveChunk: false,
+  reuploadOnMismatch: true,
+  // only offered in a folder unlocked for end-to-end encryption
+  encrypt: true,
+  // conversion of images before they are sent
+  image: {
+    enabled: false,
+    maxEdge: 2560,
+    format: "original" as "original" | "jpeg" | "webp",
+    quality: 85,
+    heicToJpeg: true,
+    keepExif: true,
+    // upload the source file next to the converted one
+    keepOriginal: false,
+  },
 })
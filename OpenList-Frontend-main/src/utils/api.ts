@@ -9,6 +9,7 @@ import {
   RenameObj,
   ArchiveMeta,
   ArchiveList,
+  TaskInfo,
 } from "~/types"
 import { r } from "."
 
@@ -84,7 +85,7 @@ export const fsMove = (
   names: string[],
   overwrite: boolean,
   skip_existing: boolean,
-): PEmptyResp => {
+): PResp<{ tasks?: TaskInfo[] }> => {
   return r.post("/fs/move", {
     src_dir,
     dst_dir,
@@ -109,7 +110,7 @@ export const fsCopy = (
   overwrite: boolean,
   skip_existing: boolean,
   merge: boolean,
-): PEmptyResp => {
+): PResp<{ tasks?: TaskInfo[] }> => {
   return r.post("/fs/copy", {
     src_dir,
     dst_dir,
@@ -1,7 +1,7 @@
 export async function* asyncPool<IN, OUT>(
   poolLimit: number,
-  array: Array<IN>,
-  iteratorFn: (generator: IN, array?: Array<IN>) => Promise<OUT>,
+  array: Iterable<IN>,
+  iteratorFn: (generator: IN, array?: Iterable<IN>) => Promise<OUT>,
 ): AsyncIterableIterator<OUT> {
   const executing = new Set()
   async function consume() {
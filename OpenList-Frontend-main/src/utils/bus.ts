@@ -6,6 +6,8 @@ type Events = {
   tool: string
   pathname: string
   extract: string
+  // a file or folder was uploaded into this folder
+  uploaded: string
 }
 
 export const bus = mitt<Events>()
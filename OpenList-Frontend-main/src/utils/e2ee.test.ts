@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  E2EEHeader,
+  E2EEKey,
+  E2EE_CHUNK_SIZE,
+  E2EE_HEADER_SIZE,
+  InvalidE2EEHeaderError,
+  WrongPassphraseError,
+  decryptStream,
+  deriveE2EEKey,
+  e2eeKeyOf,
+  encryptedFile,
+  fetchE2EEHeader,
+  parseE2EEHeader,
+} from "./e2ee"
+
+// the lowest count a header may ask for, keeps the tests fast
+const ITERATIONS = 100000
+
+const plaintext = (size: number) => {
+  const bytes = new Uint8Array(size)
+  for (let i = 0; i < size; i++) bytes[i] = (i * 31 + 7) % 251
+  return bytes
+}
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+// toEqual walks a megabyte long array element by element
+const sameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i])
+
+const encrypt = async (plain: Uint8Array, passphrase = "secret") => {
+  const key = await deriveE2EEKey(passphrase, undefined, ITERATIONS)
+  const file = encryptedFile(new File([plain as BlobPart], "a.bin"), key)
+  const sealed = await bytesOf(await file.read(0, file.size))
+  return { key, file, sealed, header: parseE2EEHeader(sealed)! }
+}
+
+// Feeds the ciphertext in pieces of the given size, like a response body
+const decrypt = async (
+  sealed: Uint8Array,
+  header: E2EEHeader,
+  key: E2EEKey,
+  piece = 64 * 1024,
+) => {
+  const source = new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      for (let pos = 0; pos < sealed.length; pos += piece) {
+        controller.enqueue(sealed.slice(pos, pos + piece))
+      }
+      controller.close()
+    },
+  })
+  return bytesOf(
+    await new Response(source.pipeThrough(decryptStream(header, key))).blob(),
+  )
+}
+
+describe("encryption", () => {
+  it.each([
+    ["an empty file", 0],
+    ["a file smaller than a chunk", 1000],
+    ["a file of whole chunks", 2 * E2EE_CHUNK_SIZE],
+    ["a file ending in a partial chunk", 2 * E2EE_CHUNK_SIZE + 12345],
+  ])("round-trips %s", async (_, size) => {
+    const plain = plaintext(size)
+    const { file, sealed, header, key } = await encrypt(plain)
+    expect(sealed.length).toBe(file.size)
+    expect(header.size).toBe(size)
+    expect(sameBytes(await decrypt(sealed, header, key), plain)).toBe(true)
+  })
+
+  it("decrypts pieces that don't line up with the chunks", async () => {
+    const plain = plaintext(E2EE_CHUNK_SIZE + 100)
+    const { sealed, header, key } = await encrypt(plain)
+    expect(sameBytes(await decrypt(sealed, header, key, 4099), plain)).toBe(
+      true,
+    )
+  })
+
+  it("reads the same bytes in ranges", async () => {
+    const { file, sealed } = await encrypt(plaintext(E2EE_CHUNK_SIZE + 100))
+    const cuts = [0, 10, E2EE_HEADER_SIZE + 5, E2EE_CHUNK_SIZE, file.size]
+    const parts = []
+    for (let i = 1; i < cuts.length; i++) {
+      parts.push(await file.read(cuts[i - 1], cuts[i]))
+    }
+    expect(sameBytes(await bytesOf(new Blob(parts)), sealed)).toBe(true)
+  })
+
+  it("writes what it was given into the header", async () => {
+    const { key, header } = await encrypt(plaintext(10))
+    expect(header.chunkSize).toBe(E2EE_CHUNK_SIZE)
+    expect(header.iterations).toBe(ITERATIONS)
+    expect(header.salt).toEqual(key.salt)
+    expect(header.check).toEqual(key.check)
+  })
+})
+
+describe("decryption", () => {
+  it("refuses a wrong passphrase before the first chunk", async () => {
+    const { header } = await encrypt(plaintext(10))
+    await expect(e2eeKeyOf("wrong", header)).rejects.toBeInstanceOf(
+      WrongPassphraseError,
+    )
+    await expect(e2eeKeyOf("secret", header)).resolves.toBeDefined()
+  })
+
+  it("detects a damaged chunk", async () => {
+    const { sealed, header, key } = await encrypt(
+      plaintext(E2EE_CHUNK_SIZE + 100),
+    )
+    sealed[E2EE_HEADER_SIZE + E2EE_CHUNK_SIZE + 50] ^= 1
+    await expect(decrypt(sealed, header, key)).rejects.toThrow(
+      "Encrypted file is damaged at chunk 1",
+    )
+  })
+
+  it("detects a file cut off at a chunk boundary", async () => {
+    const { sealed, header, key } = await encrypt(
+      plaintext(2 * E2EE_CHUNK_SIZE),
+    )
+    const cut = sealed.slice(0, E2EE_HEADER_SIZE + E2EE_CHUNK_SIZE + 16)
+    await expect(decrypt(cut, header, key)).rejects.toThrow(
+      "Encrypted file is incomplete",
+    )
+  })
+
+  it("doesn't take the chunks of another file", async () => {
+    const one = await encrypt(plaintext(100))
+    const other = await encrypt(plaintext(100))
+    const swapped = new Uint8Array(one.sealed)
+    swapped.set(other.sealed.subarray(E2EE_HEADER_SIZE), E2EE_HEADER_SIZE)
+    await expect(decrypt(swapped, one.header, one.key)).rejects.toThrow(
+      "damaged",
+    )
+  })
+})
+
+describe("parseE2EEHeader", () => {
+  const headerBytes = async () => (await encrypt(plaintext(10))).header.bytes
+
+  it("ignores files that aren't encrypted", async () => {
+    expect(parseE2EEHeader(new TextEncoder().encode("plain text"))).toBe(
+      undefined,
+    )
+    expect(parseE2EEHeader(new Uint8Array(E2EE_HEADER_SIZE))).toBe(undefined)
+    const bytes = await headerBytes()
+    expect(parseE2EEHeader(bytes.subarray(0, E2EE_HEADER_SIZE - 1))).toBe(
+      undefined,
+    )
+  })
+
+  it.each([
+    ["an unsupported version", (view: DataView) => view.setUint8(6, 2)],
+    ["a chunk size of 0", (view: DataView) => view.setUint32(8, 0)],
+    ["a huge chunk size", (view: DataView) => view.setUint32(8, 2 ** 31)],
+    ["too few iterations", (view: DataView) => view.setUint32(12, 1)],
+    [
+      "too many iterations",
+      (view: DataView) => view.setUint32(12, 2 ** 32 - 1),
+    ],
+    ["an unsafe size", (view: DataView) => view.setUint32(56, 2 ** 32 - 1)],
+  ])("rejects %s", async (_, corrupt) => {
+    const bytes = await headerBytes()
+    corrupt(new DataView(bytes.buffer, bytes.byteOffset))
+    expect(() => parseE2EEHeader(bytes)).toThrow(InvalidE2EEHeaderError)
+  })
+})
+
+describe("fetchE2EEHeader", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("reads the header when the server ignores the range", async () => {
+    const { sealed, header } = await encrypt(plaintext(E2EE_CHUNK_SIZE))
+    const fetch = vi.fn(async () => new Response(sealed))
+    vi.stubGlobal("fetch", fetch)
+    expect(await fetchE2EEHeader("/d/a.bin")).toEqual(header)
+    expect(fetch).toHaveBeenCalledWith("/d/a.bin", {
+      headers: { Range: `bytes=0-${E2EE_HEADER_SIZE - 1}` },
+    })
+  })
+
+  it("gives nothing for a plain file or a failed request", async () => {
+    vi.stubGlobal("fetch", async () => new Response("just text"))
+    expect(await fetchE2EEHeader("/d/a.txt")).toBe(undefined)
+    vi.stubGlobal("fetch", async () => new Response(null, { status: 404 }))
+    expect(await fetchE2EEHeader("/d/a.txt")).toBe(undefined)
+  })
+})
@@ -0,0 +1,334 @@
+// End-to-end encryption of files in the browser, the storage only ever sees
+// ciphertext. An encrypted file is a header followed by the plaintext in
+// chunks, each sealed with AES-GCM under a key derived from the passphrase.
+//
+// Header, big endian:
+//   magic "OLE2EE" | version u8 | reserved u8 | chunk size u32
+//   | PBKDF2 iterations u32 | salt 16 | nonce prefix 8 | key check 16
+//   | plaintext size u64
+// Chunk i is its ciphertext followed by the 16 byte tag. Its IV is the nonce
+// prefix followed by i, and the header and whether it is the last chunk are
+// authenticated with it, so chunks can't be reordered, cut off or moved to
+// another file.
+
+export const E2EE_HEADER_SIZE = 64
+export const E2EE_CHUNK_SIZE = 1024 * 1024
+const MAGIC = "OLE2EE"
+const VERSION = 1
+const ITERATIONS = 600000
+const SALT_SIZE = 16
+const NONCE_PREFIX_SIZE = 8
+const CHECK_SIZE = 16
+const TAG_SIZE = 16
+// Bounds on what a header may ask for, it comes with the file and a chunk
+// size of 0 or billions of iterations would hang the tab
+const MIN_CHUNK_SIZE = 16 * 1024
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024
+const MIN_ITERATIONS = 100000
+const MAX_ITERATIONS = 5000000
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase")
+  }
+}
+
+export class InvalidE2EEHeaderError extends Error {
+  constructor(reason: string) {
+    super(`Encrypted file has an invalid header: ${reason}`)
+  }
+}
+
+export interface E2EEHeader {
+  chunkSize: number
+  iterations: number
+  salt: Uint8Array
+  noncePrefix: Uint8Array
+  check: Uint8Array
+  size: number
+  // the raw header, authenticated with every chunk
+  bytes: Uint8Array
+}
+
+// A derived key and what is needed to write it into a header
+export interface E2EEKey {
+  key: CryptoKey
+  salt: Uint8Array
+  iterations: number
+  check: Uint8Array
+}
+
+// Undefined for bytes that aren't an encrypted file, throws
+// InvalidE2EEHeaderError for one whose header can't be used
+export const parseE2EEHeader = (bytes: Uint8Array): E2EEHeader | undefined => {
+  if (bytes.length < E2EE_HEADER_SIZE) return
+  const magic = String.fromCharCode(...bytes.subarray(0, MAGIC.length))
+  if (magic !== MAGIC) return
+  if (bytes[6] !== VERSION) {
+    throw new InvalidE2EEHeaderError(`unsupported version ${bytes[6]}`)
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, E2EE_HEADER_SIZE)
+  let pos = 16
+  const take = (size: number) => bytes.slice(pos, (pos += size))
+  const header = {
+    chunkSize: view.getUint32(8),
+    iterations: view.getUint32(12),
+    salt: take(SALT_SIZE),
+    noncePrefix: take(NONCE_PREFIX_SIZE),
+    check: take(CHECK_SIZE),
+    size: view.getUint32(pos) * 2 ** 32 + view.getUint32(pos + 4),
+    bytes: bytes.slice(0, E2EE_HEADER_SIZE),
+  }
+  if (header.chunkSize < MIN_CHUNK_SIZE || header.chunkSize > MAX_CHUNK_SIZE) {
+    throw new InvalidE2EEHeaderError(`chunk size ${header.chunkSize}`)
+  }
+  if (
+    header.iterations < MIN_ITERATIONS ||
+    header.iterations > MAX_ITERATIONS
+  ) {
+    throw new InvalidE2EEHeaderError(`${header.iterations} iterations`)
+  }
+  if (!Number.isSafeInteger(header.size)) {
+    throw new InvalidE2EEHeaderError(`size ${header.size}`)
+  }
+  return header
+}
+
+const buildHeader = (key: E2EEKey, size: number) => {
+  const bytes = new Uint8Array(E2EE_HEADER_SIZE)
+  const view = new DataView(bytes.buffer)
+  bytes.set(Array.from(MAGIC, (c) => c.charCodeAt(0)))
+  bytes[6] = VERSION
+  view.setUint32(8, E2EE_CHUNK_SIZE)
+  view.setUint32(12, key.iterations)
+  let pos = 16
+  const put = (part: Uint8Array) => {
+    bytes.set(part, pos)
+    pos += part.length
+  }
+  put(key.salt)
+  put(crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_SIZE)))
+  put(key.check)
+  view.setUint32(pos, Math.floor(size / 2 ** 32))
+  view.setUint32(pos + 4, size % 2 ** 32)
+  return parseE2EEHeader(bytes)!
+}
+
+const chunkCount = (size: number, chunkSize: number) =>
+  Math.max(1, Math.ceil(size / chunkSize))
+
+const chunkParams = (header: E2EEHeader, index: number, last: boolean) => {
+  const iv = new Uint8Array(12)
+  iv.set(header.noncePrefix)
+  new DataView(iv.buffer).setUint32(NONCE_PREFIX_SIZE, index)
+  const additionalData = new Uint8Array(E2EE_HEADER_SIZE + 1)
+  additionalData.set(header.bytes)
+  additionalData[E2EE_HEADER_SIZE] = last ? 1 : 0
+  return { name: "AES-GCM", iv, additionalData }
+}
+
+// Keys by salt and passphrase, deriving one takes a noticeable moment
+const derived = new Map<string, Promise<E2EEKey>>()
+
+export const deriveE2EEKey = (
+  passphrase: string,
+  salt: Uint8Array = crypto.getRandomValues(new Uint8Array(SALT_SIZE)),
+  iterations = ITERATIONS,
+) => {
+  const id = `${iterations}:${salt.join(",")}:${passphrase}`
+  let key = derived.get(id)
+  if (!key) {
+    key = (async () => {
+      const material = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(passphrase),
+        "PBKDF2",
+        false,
+        ["deriveBits"],
+      )
+      const bits = new Uint8Array(
+        await crypto.subtle.deriveBits(
+          {
+            name: "PBKDF2",
+            hash: "SHA-256",
+            salt: salt as BufferSource,
+            iterations,
+          },
+          material,
+          (32 + CHECK_SIZE) * 8,
+        ),
+      )
+      return {
+        key: await crypto.subtle.importKey(
+          "raw",
+          bits.slice(0, 32),
+          "AES-GCM",
+          false,
+          ["encrypt", "decrypt"],
+        ),
+        salt,
+        iterations,
+        check: bits.slice(32),
+      }
+    })()
+    derived.set(id, key)
+    key.catch(() => derived.delete(id))
+  }
+  return key
+}
+
+// The key of an encrypted file, a passphrase it wasn't encrypted with
+// fails here rather than on the first chunk
+export const e2eeKeyOf = async (passphrase: string, header: E2EEHeader) => {
+  const key = await deriveE2EEKey(passphrase, header.salt, header.iterations)
+  if (key.check.some((byte, i) => byte !== header.check[i])) {
+    throw new WrongPassphraseError()
+  }
+  return key
+}
+
+// A file encrypted on demand: the ciphertext of a range is only computed
+// when it is read, so no more than the range being sent is in memory
+export interface EncryptedFile {
+  name: string
+  size: number
+  type: string
+  lastModified: number
+  read: (start: number, end: number, signal?: AbortSignal) => Promise<Blob>
+}
+
+export const encryptedFile = (file: File, key: E2EEKey): EncryptedFile => {
+  const header = buildHeader(key, file.size)
+  const count = chunkCount(file.size, E2EE_CHUNK_SIZE)
+  const sealedSize = E2EE_CHUNK_SIZE + TAG_SIZE
+  return {
+    name: file.name,
+    size: E2EE_HEADER_SIZE + file.size + count * TAG_SIZE,
+    type: "application/octet-stream",
+    lastModified: file.lastModified,
+    // the same header and key give the same ciphertext, a range read again
+    // e.g. for a retry holds the same bytes
+    read: async (start, end, signal) => {
+      // the blob built starts at offset, the header or the first chunk
+      const inHeader = start < E2EE_HEADER_SIZE
+      const first = inHeader
+        ? 0
+        : Math.floor((start - E2EE_HEADER_SIZE) / sealedSize)
+      const last = Math.min(
+        count - 1,
+        Math.floor((end - 1 - E2EE_HEADER_SIZE) / sealedSize),
+      )
+      const offset = inHeader ? 0 : E2EE_HEADER_SIZE + first * sealedSize
+      const parts: BlobPart[] = inHeader ? [header.bytes as BlobPart] : []
+      for (let i = first; i <= last; i++) {
+        signal?.throwIfAborted()
+        const from = i * E2EE_CHUNK_SIZE
+        const plain = await file
+          .slice(from, from + E2EE_CHUNK_SIZE)
+          .arrayBuffer()
+        parts.push(
+          await crypto.subtle.encrypt(
+            chunkParams(header, i, i === count - 1),
+            key.key,
+            plain,
+          ),
+        )
+      }
+      return new Blob(parts).slice(start - offset, end - offset)
+    },
+  }
+}
+
+// Decrypts an encrypted file as it streams in, chunk by chunk. The key is
+// checked against the header beforehand, see e2eeKeyOf.
+export const decryptStream = (
+  header: E2EEHeader,
+  key: E2EEKey,
+  onProgress?: (decrypted: number) => void,
+) => {
+  const count = chunkCount(header.size, header.chunkSize)
+  const sealedSize = header.chunkSize + TAG_SIZE
+  const lastSize = header.size - (count - 1) * header.chunkSize + TAG_SIZE
+  // bytes received and not yet decrypted, the header is skipped first
+  const parts: Uint8Array[] = []
+  let buffered = 0
+  let skip = E2EE_HEADER_SIZE
+  let index = 0
+  let decrypted = 0
+  const take = (size: number) => {
+    const bytes = new Uint8Array(size)
+    for (let pos = 0; pos < size; ) {
+      const part = parts[0]
+      const n = Math.min(part.length, size - pos)
+      bytes.set(part.subarray(0, n), pos)
+      pos += n
+      if (n === part.length) parts.shift()
+      else parts[0] = part.subarray(n)
+    }
+    buffered -= size
+    return bytes
+  }
+  const open = async (
+    controller: TransformStreamDefaultController<Uint8Array>,
+    size: number,
+  ) => {
+    let plain: ArrayBuffer
+    try {
+      plain = await crypto.subtle.decrypt(
+        chunkParams(header, index, index === count - 1),
+        key.key,
+        take(size),
+      )
+    } catch {
+      throw new Error(`Encrypted file is damaged at chunk ${index}`)
+    }
+    controller.enqueue(new Uint8Array(plain))
+    index++
+    decrypted += plain.byteLength
+    onProgress?.(decrypted)
+  }
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform: async (chunk, controller) => {
+      if (skip > 0) {
+        const skipped = Math.min(skip, chunk.length)
+        chunk = chunk.subarray(skipped)
+        skip -= skipped
+      }
+      if (chunk.length === 0) return
+      parts.push(chunk)
+      buffered += chunk.length
+      // the last chunk is told apart by its size, it is opened at the end
+      while (index < count - 1 && buffered >= sealedSize) {
+        await open(controller, sealedSize)
+      }
+    },
+    flush: async (controller) => {
+      if (skip > 0 || index !== count - 1 || buffered !== lastSize) {
+        throw new Error("Encrypted file is incomplete")
+      }
+      await open(controller, lastSize)
+    },
+  })
+}
+
+// Header of the file at the url, undefined when it isn't encrypted. Only the
+// first bytes are read, also when the server ignores the range. An encrypted
+// file with an unusable header throws InvalidE2EEHeaderError.
+export const fetchE2EEHeader = async (url: string) => {
+  const resp = await fetch(url, {
+    headers: { Range: `bytes=0-${E2EE_HEADER_SIZE - 1}` },
+  })
+  if (!resp.ok || !resp.body) return
+  const reader = resp.body.getReader()
+  const bytes = new Uint8Array(E2EE_HEADER_SIZE)
+  let read = 0
+  while (read < E2EE_HEADER_SIZE) {
+    const { done, value } = await reader.read()
+    if (done) break
+    const part = value.subarray(0, E2EE_HEADER_SIZE - read)
+    bytes.set(part, read)
+    read += part.length
+  }
+  reader.cancel().catch(() => {})
+  return parseE2EEHeader(bytes.subarray(0, read))
+}
@@ -23,6 +23,16 @@ export function getFileSize(size: number) {
   return (size / Math.pow(num, 4)).toFixed(2) + "T" //T
 }
 
+// Short human readable duration, e.g. 1h 5m or 42s
+export function formatDuration(seconds: number) {
+  const s = Math.max(0, Math.round(seconds))
+  const h = Math.floor(s / 3600)
+  const m = Math.floor((s % 3600) / 60)
+  if (h > 0) return `${h}h ${m}m`
+  if (m > 0) return `${m}m ${s % 60}s`
+  return `${s}s`
+}
+
 const full = (p: number) => {
   return p < 10 ? "0" + p : p
 }
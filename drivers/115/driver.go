@@ -202,6 +202,7 @@ func (d *Pan115) Put(ctx context.Context, dstDir model.Obj, stream model.FileStr
 	if matched, err := fastInfo.Ok(); err != nil {
 		return nil, err
 	} else if matched {
+		model.MarkRapidUploaded(stream)
 		f, err := d.getNewFileByPickCode(fastInfo.PickCode)
 		if err != nil {
 			return nil, nil
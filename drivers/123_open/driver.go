@@ -197,6 +197,7 @@ func (d *Open123) Put(ctx context.Context, dstDir model.Obj, file model.FileStre
 	if createResp.Data.Reuse {
 		// 秒传成功才会返回正确的 FileID，否则为 0
 		if createResp.Data.FileID != 0 {
+			model.MarkRapidUploaded(file)
 			return File{
 				FileName: file.GetName(),
 				Size:     file.GetSize(),
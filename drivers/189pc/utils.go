@@ -1003,6 +1003,8 @@ func (y *Cloud189PC) FastUpload(ctx context.Context, dstDir model.Obj, file mode
 			return nil, err
 		}
 		defer up(100)
+	} else {
+		model.MarkRapidUploaded(file)
 	}
 
 	// step.5 提交
@@ -279,6 +279,7 @@ func (d *AliDrive) Put(ctx context.Context, dstDir model.Obj, streamer model.Fil
 			return err
 		}
 		if resp.RapidUpload {
+			model.MarkRapidUploaded(streamer)
 			return nil
 		}
 		// 秒传失败
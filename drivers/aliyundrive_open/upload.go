@@ -258,6 +258,7 @@ func (d *AliyundriveOpen) upload(ctx context.Context, dstDir model.Obj, stream m
 			up(float64(i*100) / float64(count))
 		}
 	} else {
+		model.MarkRapidUploaded(stream)
 		log.Debugf("[aliyundrive_open] rapid upload success, file id: %s", createResp.FileId)
 	}
 
@@ -196,6 +196,7 @@ func (d *BaiduNetdisk) Put(ctx context.Context, dstDir model.Obj, stream model.F
 
 	// rapid upload
 	if newObj, err := d.PutRapid(ctx, dstDir, stream); err == nil {
+		model.MarkRapidUploaded(stream)
 		return newObj, nil
 	}
 
@@ -282,6 +283,7 @@ func (d *BaiduNetdisk) Put(ctx context.Context, dstDir model.Obj, stream model.F
 		}
 		if precreateResp.ReturnType == 2 {
 			// rapid upload, since got md5 match from baidu server
+			model.MarkRapidUploaded(stream)
 			// 修复时间，具体原因见 Put 方法注释的 **注意**
 			precreateResp.File.Ctime = ctime
 			precreateResp.File.Mtime = mtime
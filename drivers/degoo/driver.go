@@ -189,6 +189,8 @@ func (d *Degoo) Put(ctx context.Context, dstDir model.Obj, file model.FileStream
 		if err != nil {
 			return err
 		}
+	} else {
+		model.MarkRapidUploaded(file)
 	}
 
 	// 3. Register metadata with setUploadFile3.
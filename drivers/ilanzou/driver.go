@@ -302,6 +302,7 @@ func (d *ILanZou) Put(ctx context.Context, dstDir model.Obj, s model.FileStreame
 		if err != nil {
 			return nil, err
 		}
+		model.MarkRapidUploaded(s)
 		return &model.Object{
 			ID:       strconv.FormatInt(resp.Map.FileID, 10),
 			Name:     resp.Map.FileName,
@@ -242,6 +242,7 @@ func (d *PikPak) Put(ctx context.Context, dstDir model.Obj, stream model.FileStr
 	// 秒传成功
 	if resp.Resumable == nil {
 		log.Debugln(string(res))
+		model.MarkRapidUploaded(stream)
 		return nil
 	}
 
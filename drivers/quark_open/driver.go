@@ -177,6 +177,7 @@ func (d *QuarkOpen) Put(ctx context.Context, dstDir model.Obj, stream model.File
 	}
 	// 如果预上传已经完成，直接返回--秒传
 	if pre.Data.Finish {
+		model.MarkRapidUploaded(stream)
 		up(100)
 		return nil
 	}
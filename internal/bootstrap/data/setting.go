@@ -251,6 +251,7 @@ func InitialSettings() []model.SettingItem {
 		{Key: conf.HTTPServerMaxHeaderBytes, Value: "1048576", Type: conf.TypeNumber, Group: model.TRAFFIC, Flag: model.PRIVATE, Help: "HTTP Header最大字节数，默认1MB(1048576)"},
 		// 分片上传配置（绕过 Cloudflare CDN 限制）
 		{Key: conf.ChunkedUploadChunkSize, Value: "95", Type: conf.TypeNumber, Group: model.TRAFFIC, Flag: model.PUBLIC, Help: "分片上传阈值(MB)，超过此大小的文件将自动分片上传，建议设为95以绕过Cloudflare 100MB限制"},
+		{Key: conf.ChunkedUploadConcurrency, Value: "3", Type: conf.TypeNumber, Group: model.TRAFFIC, Flag: model.PUBLIC, Help: "分片上传并发数，单个文件同时上传的分片数量，设为1则逐个上传"},
 	}
 	additionalSettingItems := tool.Tools.Items()
 	// 固定顺序
@@ -167,7 +167,8 @@ const (
 	HTTPServerMaxHeaderBytes    = "http_server_max_header_bytes"    // Header最大字节数
 
 	// Chunked Upload (分片上传配置)
-	ChunkedUploadChunkSize = "chunked_upload_chunk_size" // 分片大小（MB），超过此大小的文件将自动分片上传
+	ChunkedUploadChunkSize   = "chunked_upload_chunk_size"  // 分片大小（MB），超过此大小的文件将自动分片上传
+	ChunkedUploadConcurrency = "chunked_upload_concurrency" // 单个文件同时上传的分片数
 )
 
 const (
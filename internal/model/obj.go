@@ -52,6 +52,21 @@ type FileStreamer interface {
 	GetFile() File
 }
 
+// RapidUploadMarker is implemented by upload streams that record whether the
+// storage took the file by its hash, without its content being sent
+type RapidUploadMarker interface {
+	MarkRapidUploaded()
+	RapidUploaded() bool
+}
+
+// MarkRapidUploaded is called by drivers when the storage accepted the file
+// by its hash
+func MarkRapidUploaded(file FileStreamer) {
+	if m, ok := file.(RapidUploadMarker); ok {
+		m.MarkRapidUploaded()
+	}
+}
+
 type UpdateProgress func(percentage float64)
 
 func UpdateProgressWithRange(inner UpdateProgress, start, end float64) UpdateProgress {
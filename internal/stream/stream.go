@@ -30,6 +30,8 @@ type FileStream struct {
 	size      int64
 	peekBuff  *buffer.Reader
 	oriReader io.Reader // the original reader, used for caching
+	// the storage took the file by its hash, see model.MarkRapidUploaded
+	rapidUploaded bool
 }
 
 func (f *FileStream) GetSize() int64 {
@@ -67,6 +69,14 @@ func (f *FileStream) SetExist(obj model.Obj) {
 	f.Exist = obj
 }
 
+func (f *FileStream) MarkRapidUploaded() {
+	f.rapidUploaded = true
+}
+
+func (f *FileStream) RapidUploaded() bool {
+	return f.rapidUploaded
+}
+
 // CacheFullAndWriter save all data into tmpFile or memory.
 // It's not thread-safe!
 func (f *FileStream) CacheFullAndWriter(up *model.UpdateProgress, writer io.Writer) (model.File, error) {
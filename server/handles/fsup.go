@@ -9,6 +9,7 @@ import (
 	stdpath "path"
 	"regexp"
 	"strconv"
+	"strings"
 	"sync"
 	"time"
 
@@ -47,11 +48,34 @@ func shouldIgnoreSystemFile(filename string) bool {
 type StreamUploadSession struct {
 	pipeWriter *io.PipeWriter
 	pipeReader *io.PipeReader
+	hasher     *utils.MultiHasher // hash of the bytes received, in order
 	totalSize  int64
 	received   int64
 	done       chan error
 	lastActive time.Time
 	mu         sync.Mutex
+	writeMu    sync.Mutex // held while a chunk is written, one at a time
+}
+
+// storageWriter remembers a failed write to the pipe, i.e. the storage side
+// gave up, as opposed to a failed read of the request body
+type storageWriter struct {
+	w   io.Writer
+	err error
+}
+
+func (s *storageWriter) Write(p []byte) (int, error) {
+	n, err := s.w.Write(p)
+	if err != nil {
+		s.err = err
+	}
+	return n, err
+}
+
+// abortStreamSession stops the storage upload of a session and forgets it
+func abortStreamSession(key string, session *StreamUploadSession, err error) {
+	session.pipeWriter.CloseWithError(err)
+	streamUploadSessions.CompareAndDelete(key, session)
 }
 
 // streamUploadSessions stores active upload sessions
@@ -77,6 +101,13 @@ func init() {
 				session.mu.Unlock()
 				return true
 			})
+			chunkMergeResults.Range(func(key, value any) bool {
+				result := value.(*chunkMergeResult)
+				if result.Status != "merging" && now.Sub(result.updated) > chunkMergeResultTimeout {
+					chunkMergeResults.Delete(key)
+				}
+				return true
+			})
 		}
 	}()
 }
@@ -165,12 +196,16 @@ func fsStreamChunked(c *gin.Context, contentRange string) {
 		session := &StreamUploadSession{
 			pipeWriter: pw,
 			pipeReader: pr,
+			hasher:     utils.NewMultiHasher([]*utils.HashType{utils.XXH64}),
 			totalSize:  total,
 			received:   0,
 			done:       make(chan error, 1),
 			lastActive: time.Now(),
 		}
-		streamUploadSessions.Store(sessionKey, session)
+		// A restarted upload replaces the session of the earlier attempt
+		if old, loaded := streamUploadSessions.Swap(sessionKey, session); loaded {
+			old.(*StreamUploadSession).pipeWriter.CloseWithError(fmt.Errorf("upload restarted"))
+		}
 
 		// Get mimetype
 		mimetype := c.GetHeader("Content-Type")
@@ -204,24 +239,64 @@ func fsStreamChunked(c *gin.Context, contentRange string) {
 	}
 	session := sessionVal.(*StreamUploadSession)
 
+	// A retry may still find the earlier attempt writing
+	if !session.writeMu.TryLock() {
+		common.ErrorStrResp(c, "another chunk of this upload is being written", 503)
+		return
+	}
+	defer session.writeMu.Unlock()
+
 	session.mu.Lock()
 	session.lastActive = time.Now()
+	received := session.received
 	session.mu.Unlock()
 
-	// Write request body to pipe (streaming - no buffering)
-	written, err := io.Copy(session.pipeWriter, c.Request.Body)
-	if err != nil {
-		session.pipeWriter.CloseWithError(err)
-		streamUploadSessions.Delete(sessionKey)
-		common.ErrorResp(c, err, 500)
+	// Chunks must continue exactly where the committed bytes end
+	if start != received {
+		common.ErrorWithDataResp(c, fmt.Errorf("offset mismatch: expected %d, got %d", received, start), 409, gin.H{
+			"received": received,
+			"total":    total,
+		})
 		return
 	}
 
+	// Write request body to pipe (streaming - no buffering)
+	chunkHasher := utils.NewMultiHasher([]*utils.HashType{utils.CRC32})
+	pipe := &storageWriter{w: session.pipeWriter}
+	written, err := io.Copy(io.MultiWriter(pipe, session.hasher, chunkHasher), c.Request.Body)
+
 	session.mu.Lock()
 	session.received += written
+	session.lastActive = time.Now()
 	currentReceived := session.received
 	session.mu.Unlock()
 
+	if pipe.err != nil {
+		abortStreamSession(sessionKey, session, pipe.err)
+		common.ErrorResp(c, pipe.err, 500)
+		return
+	}
+	if err != nil {
+		// The bytes that made it are committed, the client asks for the
+		// offset and continues from there
+		common.ErrorWithDataResp(c, err, 500, gin.H{
+			"received": currentReceived,
+			"total":    total,
+		})
+		return
+	}
+
+	// The bytes already went to the storage, a corrupted chunk can't be
+	// taken back and ends the session
+	expectedCRC32 := c.GetHeader("X-Chunk-CRC32")
+	actualCRC32 := chunkHasher.GetHashInfo().GetHash(utils.CRC32)
+	if expectedCRC32 != "" && expectedCRC32 != actualCRC32 {
+		err := fmt.Errorf("chunk CRC32 mismatch: client=%s, server=%s", expectedCRC32, actualCRC32)
+		abortStreamSession(sessionKey, session, err)
+		common.ErrorResp(c, err, 400)
+		return
+	}
+
 	// Check if this is the last chunk
 	if currentReceived >= total {
 		// Close pipe to signal completion
@@ -237,13 +312,76 @@ func fsStreamChunked(c *gin.Context, contentRange string) {
 		}
 	}
 
-	common.SuccessResp(c, gin.H{
+	resp := gin.H{
 		"received": currentReceived,
 		"total":    total,
 		"complete": currentReceived >= total,
+		"crc32":    actualCRC32,
+	}
+	if currentReceived >= total {
+		hashResponse := make(map[string]string)
+		for ht, hashValue := range session.hasher.GetHashInfo().All() {
+			hashResponse[ht.Name] = hashValue
+		}
+		resp["hash"] = hashResponse
+	}
+	common.SuccessResp(c, resp)
+}
+
+// streamSessionOf finds the session of a chunked stream upload of the user
+func streamSessionOf(c *gin.Context, path string, total int64) (string, *StreamUploadSession, bool) {
+	user := c.Request.Context().Value(conf.UserKey).(*model.User)
+	path, err := user.JoinPath(path)
+	if err != nil {
+		return "", nil, false
+	}
+	key := generateStreamSessionKey(user.ID, path, total)
+	value, ok := streamUploadSessions.Load(key)
+	if !ok {
+		return key, nil, false
+	}
+	return key, value.(*StreamUploadSession), true
+}
+
+// FsStreamStatus reports how many bytes of a chunked stream upload were
+// committed, so that a failed chunk can be continued at the right offset
+func FsStreamStatus(c *gin.Context) {
+	total, err := strconv.ParseInt(c.Query("total"), 10, 64)
+	if err != nil {
+		common.ErrorResp(c, err, 400)
+		return
+	}
+	_, session, ok := streamSessionOf(c, c.Query("path"), total)
+	if !ok {
+		common.ErrorStrResp(c, "upload session not found", 404)
+		return
+	}
+	session.mu.Lock()
+	received := session.received
+	session.mu.Unlock()
+	common.SuccessResp(c, gin.H{
+		"received": received,
+		"total":    total,
 	})
 }
 
+// FsStreamAbort ends a chunked stream upload that can't be continued
+func FsStreamAbort(c *gin.Context) {
+	var req struct {
+		Path  string `json:"path"`
+		Total int64  `json:"total"`
+	}
+	if err := c.ShouldBind(&req); err != nil {
+		common.ErrorResp(c, err, 400)
+		return
+	}
+	key, session, ok := streamSessionOf(c, req.Path, req.Total)
+	if ok {
+		abortStreamSession(key, session, fmt.Errorf("upload aborted by client"))
+	}
+	common.SuccessResp(c)
+}
+
 // fsStreamDirect handles direct (non-chunked) stream upload
 func fsStreamDirect(c *gin.Context) {
 	path := c.GetHeader("File-Path")
@@ -320,7 +458,9 @@ func fsStreamDirect(c *gin.Context) {
 		return
 	}
 	if t == nil {
-		common.SuccessResp(c)
+		common.SuccessResp(c, gin.H{
+			"rapid": s.RapidUploaded(),
+		})
 		return
 	}
 	common.SuccessResp(c, gin.H{
@@ -420,7 +560,9 @@ func FsForm(c *gin.Context) {
 		return
 	}
 	if t == nil {
-		common.SuccessResp(c)
+		common.SuccessResp(c, gin.H{
+			"rapid": s.RapidUploaded(),
+		})
 		return
 	}
 	common.SuccessResp(c, gin.H{
@@ -496,16 +638,93 @@ func FsChunkUpload(c *gin.Context) {
 	})
 }
 
+// FsChunkStatus reports which chunks of an upload have already been received,
+// so that an interrupted chunked upload can continue from where it stopped
+func FsChunkStatus(c *gin.Context) {
+	uploadId := c.Query("upload_id")
+	if uploadId == "" || stdpath.Base(uploadId) != uploadId {
+		common.ErrorStrResp(c, "invalid upload_id", 400)
+		return
+	}
+
+	chunkDir := stdpath.Join(conf.Conf.TempDir, "chunks", uploadId)
+	entries, err := os.ReadDir(chunkDir)
+	if err != nil && !os.IsNotExist(err) {
+		common.ErrorResp(c, err, 500)
+		return
+	}
+
+	chunks := make([]gin.H, 0, len(entries))
+	for _, entry := range entries {
+		if entry.IsDir() {
+			continue
+		}
+		// Skip the merged file and anything else that is not a chunk index
+		index, err := strconv.Atoi(entry.Name())
+		if err != nil {
+			continue
+		}
+		info, err := entry.Info()
+		if err != nil {
+			continue
+		}
+		chunks = append(chunks, gin.H{
+			"index": index,
+			"size":  info.Size(),
+		})
+	}
+
+	common.SuccessResp(c, gin.H{
+		"chunks": chunks,
+	})
+}
+
+// chunkMergeResult is the outcome of a background merge, kept so that the
+// client can poll it and verify the hash of the merged file
+type chunkMergeResult struct {
+	Status  string            `json:"status"` // merging, done or error
+	Hash    map[string]string `json:"hash,omitempty"`
+	Error   string            `json:"error,omitempty"`
+	updated time.Time
+}
+
+// chunkMergeResults stores background merge results by upload id
+var chunkMergeResults = sync.Map{}
+
+// chunkMergeResultTimeout for finished merge results nobody asked for
+const chunkMergeResultTimeout = time.Hour
+
+func setChunkMergeResult(uploadId string, result *chunkMergeResult) {
+	result.updated = time.Now()
+	chunkMergeResults.Store(uploadId, result)
+}
+
+// FsChunkMergeStatus reports the state of a background merge
+func FsChunkMergeStatus(c *gin.Context) {
+	uploadId := c.Query("upload_id")
+	value, ok := chunkMergeResults.Load(uploadId)
+	if !ok {
+		common.ErrorStrResp(c, "merge not found", 404)
+		return
+	}
+	result := value.(*chunkMergeResult)
+	if result.Status != "merging" {
+		chunkMergeResults.Delete(uploadId)
+	}
+	common.SuccessResp(c, result)
+}
+
 // FsChunkMerge merges all chunks into a single file and uploads it
 func FsChunkMerge(c *gin.Context) {
 	var req struct {
-		UploadId     string `json:"upload_id"`
-		Path         string `json:"path"`
-		TotalChunks  int    `json:"total_chunks"`
-		AsTask       bool   `json:"as_task"`
-		Overwrite    bool   `json:"overwrite"`
-		LastModified int64  `json:"last_modified"`
-		Hash         string `json:"hash"`
+		UploadId     string  `json:"upload_id"`
+		Path         string  `json:"path"`
+		TotalChunks  int     `json:"total_chunks"`
+		ChunkSizes   []int64 `json:"chunk_sizes"`
+		AsTask       bool    `json:"as_task"`
+		Overwrite    bool    `json:"overwrite"`
+		LastModified int64   `json:"last_modified"`
+		Hash         string  `json:"hash"`
 	}
 
 	if err := c.ShouldBindJSON(&req); err != nil {
@@ -530,13 +749,25 @@ func FsChunkMerge(c *gin.Context) {
 
 	chunkDir := stdpath.Join(conf.Conf.TempDir, "chunks", req.UploadId)
 
+	// Chunk sizes may vary (adaptive chunking), when the client sends them
+	// every chunk has to match
+	if len(req.ChunkSizes) > 0 && len(req.ChunkSizes) != req.TotalChunks {
+		common.ErrorStrResp(c, "chunk_sizes doesn't match total_chunks", 400)
+		return
+	}
+
 	// Check if all chunks exist (quick check, no heavy I/O)
 	for i := 0; i < req.TotalChunks; i++ {
 		chunkPath := stdpath.Join(chunkDir, strconv.Itoa(i))
-		if _, err := os.Stat(chunkPath); os.IsNotExist(err) {
+		info, err := os.Stat(chunkPath)
+		if os.IsNotExist(err) {
 			common.ErrorStrResp(c, "chunk "+strconv.Itoa(i)+" not found", 400)
 			return
 		}
+		if err == nil && len(req.ChunkSizes) > 0 && info.Size() != req.ChunkSizes[i] {
+			common.ErrorStrResp(c, fmt.Sprintf("chunk %d size mismatch: expected=%d, actual=%d", i, req.ChunkSizes[i], info.Size()), 400)
+			return
+		}
 	}
 
 	dir, name := stdpath.Split(path)
@@ -559,14 +790,24 @@ func FsChunkMerge(c *gin.Context) {
 		taskId := fmt.Sprintf("merge-%s", req.UploadId)
 
 		// Start background goroutine for merge
+		setChunkMergeResult(req.UploadId, &chunkMergeResult{Status: "merging"})
 		go func() {
 			utils.Log.Infof("[ChunkMerge] Starting background merge for %s", path)
+			hashResponse := make(map[string]string)
+			fail := func(format string, args ...any) {
+				utils.Log.Errorf(format, args...)
+				setChunkMergeResult(req.UploadId, &chunkMergeResult{
+					Status: "error",
+					Hash:   hashResponse,
+					Error:  fmt.Sprintf(strings.TrimPrefix(format, "[ChunkMerge] "), args...),
+				})
+			}
 
 			// Create merged file
 			mergedPath := stdpath.Join(chunkDir, "merged")
 			mergedFile, err := os.Create(mergedPath)
 			if err != nil {
-				utils.Log.Errorf("[ChunkMerge] Failed to create merged file: %v", err)
+				fail("[ChunkMerge] Failed to create merged file: %v", err)
 				return
 			}
 
@@ -579,14 +820,14 @@ func FsChunkMerge(c *gin.Context) {
 				chunk, err := os.Open(chunkPath)
 				if err != nil {
 					mergedFile.Close()
-					utils.Log.Errorf("[ChunkMerge] Failed to open chunk %d: %v", i, err)
+					fail("[ChunkMerge] Failed to open chunk %d: %v", i, err)
 					return
 				}
 				n, err := io.Copy(multiWriter, chunk)
 				chunk.Close()
 				if err != nil {
 					mergedFile.Close()
-					utils.Log.Errorf("[ChunkMerge] Failed to copy chunk %d: %v", i, err)
+					fail("[ChunkMerge] Failed to copy chunk %d: %v", i, err)
 					return
 				}
 				totalSize += n
@@ -595,13 +836,16 @@ func FsChunkMerge(c *gin.Context) {
 
 			hashInfo := hasher.GetHashInfo()
 			hashMap := hashInfo.Export()
+			for ht, hashValue := range hashMap {
+				hashResponse[ht.Name] = hashValue
+			}
 
 			// Verify client provided hash (xxHash64)
 			if req.Hash != "" {
 				for ht, hashValue := range hashMap {
 					if ht.Name == "xxh64" && hashValue != req.Hash {
 						os.RemoveAll(chunkDir)
-						utils.Log.Errorf("[ChunkMerge] Hash mismatch: Client=%s, Server=%s", req.Hash, hashValue)
+						fail("[ChunkMerge] Hash mismatch: Client=%s, Server=%s", req.Hash, hashValue)
 						return
 					}
 				}
@@ -612,7 +856,7 @@ func FsChunkMerge(c *gin.Context) {
 			// Open merged file for upload
 			mergedReader, err := os.Open(mergedPath)
 			if err != nil {
-				utils.Log.Errorf("[ChunkMerge] Failed to open merged file: %v", err)
+				fail("[ChunkMerge] Failed to open merged file: %v", err)
 				return
 			}
 
@@ -636,9 +880,10 @@ func FsChunkMerge(c *gin.Context) {
 			ctx := context.Background()
 			_, err = fs.PutAsTask(ctx, dir, s)
 			if err != nil {
-				utils.Log.Errorf("[ChunkMerge] Failed to put as task: %v", err)
+				fail("[ChunkMerge] Failed to put as task: %v", err)
 				return
 			}
+			setChunkMergeResult(req.UploadId, &chunkMergeResult{Status: "done", Hash: hashResponse})
 			utils.Log.Infof("[ChunkMerge] Successfully queued upload task for %s", path)
 		}()
 
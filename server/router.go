@@ -209,9 +209,13 @@ func _fs(g *gin.RouterGroup) {
 	g.POST("/remove_empty_directory", handles.FsRemoveEmptyDirectory)
 	uploadLimiter := middlewares.UploadRateLimiter(stream.ClientUploadLimit)
 	g.PUT("/put", middlewares.FsUp, uploadLimiter, handles.FsStream)
+	g.GET("/put/stream/status", handles.FsStreamStatus)
+	g.POST("/put/stream/abort", handles.FsStreamAbort)
 	g.PUT("/form", middlewares.FsUp, uploadLimiter, handles.FsForm)
 	g.PUT("/put/chunk", handles.FsChunkUpload)
+	g.GET("/put/chunk/status", handles.FsChunkStatus)
 	g.POST("/put/chunk/merge", handles.FsChunkMerge)
+	g.GET("/put/chunk/merge/status", handles.FsChunkMergeStatus)
 	g.POST("/link", middlewares.AuthAdmin, handles.Link)
 	// g.POST("/add_aria2", handles.AddOfflineDownload)
 	// g.POST("/add_qbit", handles.AddQbittorrent)